@@ -0,0 +1,113 @@
+/**
+ * Diff Parser
+ * Parses GitHub's unified diff patches into hunks with absolute line
+ * numbers, so inline comments can be placed (and checked) without the
+ * caller counting lines in raw patch text.
+ */
+
+import type { DiffHunk, DiffLine } from './types.js';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse a unified diff patch (as returned in a PR file's `patch`) into hunks.
+ * Every line inside a PR hunk can take an inline comment: deletions on the LEFT
+ * side by old line number, additions and context on the RIGHT by new line
+ * number.
+ */
+export function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const raw of patch.split('\n')) {
+    const header = HUNK_HEADER.exec(raw);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[3]);
+      current = {
+        header: raw,
+        oldStart: oldLine,
+        oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: newLine,
+        newLines: header[4] !== undefined ? Number(header[4]) : 1,
+        section: header[5] || undefined,
+        lines: [],
+      };
+      hunks.push(current);
+      continue;
+    }
+
+    // Lines before the first hunk (none in GitHub patches) and
+    // "\ No newline at end of file" markers aren't diff lines
+    if (!current || raw.startsWith('\\')) continue;
+
+    const marker = raw[0];
+    const content = raw.slice(1);
+    let line: DiffLine;
+    if (marker === '+') {
+      line = { type: 'addition', content, oldLine: null, newLine: newLine++, side: 'RIGHT', commentable: true };
+    } else if (marker === '-') {
+      line = { type: 'deletion', content, oldLine: oldLine++, newLine: null, side: 'LEFT', commentable: true };
+    } else if (marker === ' ' || (raw === '' && hasRemainingLines(current, oldLine, newLine))) {
+      line = { type: 'context', content, oldLine: oldLine++, newLine: newLine++, side: 'RIGHT', commentable: true };
+    } else {
+      continue; // Trailing newline at the end of the patch
+    }
+    current.lines.push(line);
+  }
+
+  return hunks;
+}
+
+/**
+ * Mark which lines of an incremental diff (e.g. changes since the last
+ * review) can take inline comments. Comments attach to the PR's own diff,
+ * so only lines it shows on the RIGHT qualify; LEFT line numbers refer to
+ * the older commit rather than the PR base and never do. Without a PR patch
+ * (too large, or the file isn't in the PR) nothing is commentable.
+ */
+export function markCommentable(hunks: DiffHunk[], prPatch: string | undefined): DiffHunk[] {
+  const prLines = new Set<number>();
+  for (const hunk of prPatch ? parsePatch(prPatch) : []) {
+    for (const line of hunk.lines) {
+      if (line.newLine !== null) prLines.add(line.newLine);
+    }
+  }
+  return hunks.map((hunk) => ({
+    ...hunk,
+    lines: hunk.lines.map((line) => ({
+      ...line,
+      commentable: line.side === 'RIGHT' && line.newLine !== null && prLines.has(line.newLine),
+    })),
+  }));
+}
+
+/**
+ * Whether a hunk still expects lines, so a bare empty line is a blank
+ * context line rather than the end of the patch
+ */
+function hasRemainingLines(hunk: DiffHunk, oldLine: number, newLine: number): boolean {
+  return oldLine < hunk.oldStart + hunk.oldLines || newLine < hunk.newStart + hunk.newLines;
+}
+
+/**
+ * Find the diff line an inline comment on (line, side) would attach to.
+ * Context lines can be addressed from either side.
+ */
+export function findDiffLine(
+  hunks: DiffHunk[],
+  line: number,
+  side: 'LEFT' | 'RIGHT'
+): { hunk: DiffHunk; line: DiffLine } | undefined {
+  for (const hunk of hunks) {
+    for (const diffLine of hunk.lines) {
+      const number = side === 'LEFT' ? diffLine.oldLine : diffLine.newLine;
+      if (number === line && diffLine.commentable) {
+        return { hunk, line: diffLine };
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,194 @@
+/**
+ * File Content
+ * Fetches full files (or line ranges) at a PR's head or base commit, so
+ * reviewers can see code around the diff hunks.
+ */
+
+import { githubRequest } from './github-client.js';
+import { requireGitHubSession, resolvePRIdentifier } from './github-api.js';
+import type { FileContentResult } from './types.js';
+
+const DEFAULT_MAX_LINES = 400; // Lines returned when no range is requested
+const MAX_RANGE_LINES = 2000; // Largest range a single call can return
+const MAX_FILE_BYTES = 10 * 1024 * 1024; // Larger files are reported, not downloaded
+const BINARY_SNIFF_BYTES = 8000;
+const BLOB_CACHE_MAX_ENTRIES = 200;
+const BLOB_CACHE_MAX_BYTES = 64 * 1024 * 1024; // Total across entries; a few large files can't fill memory
+
+// ============================================
+// Blob Cache
+// ============================================
+
+/**
+ * Decoded file contents keyed by git blob SHA. Blobs are immutable, so
+ * entries never go stale; the cache is only bounded by entry count and
+ * total size.
+ */
+interface CachedBlob {
+  binary: boolean;
+  text: string;
+}
+
+const blobCache = new Map<string, CachedBlob>();
+let blobCacheBytes = 0;
+
+function deleteCachedBlob(blobSha: string): void {
+  const entry = blobCache.get(blobSha);
+  if (entry) {
+    blobCacheBytes -= entry.text.length;
+    blobCache.delete(blobSha);
+  }
+}
+
+function getCachedBlob(blobSha: string): CachedBlob | undefined {
+  const entry = blobCache.get(blobSha);
+  if (entry) {
+    blobCache.delete(blobSha);
+    blobCache.set(blobSha, entry);
+  }
+  return entry;
+}
+
+function setCachedBlob(blobSha: string, blob: CachedBlob): void {
+  deleteCachedBlob(blobSha);
+  blobCache.set(blobSha, blob);
+  blobCacheBytes += blob.text.length;
+  while (blobCache.size > BLOB_CACHE_MAX_ENTRIES || blobCacheBytes > BLOB_CACHE_MAX_BYTES) {
+    deleteCachedBlob(blobCache.keys().next().value as string);
+  }
+}
+
+/**
+ * Git's own heuristic: a NUL byte near the start means binary
+ */
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+function decodeBlob(base64Content: string): CachedBlob {
+  const buffer = Buffer.from(base64Content, 'base64');
+  if (isBinary(buffer)) {
+    return { binary: true, text: '' };
+  }
+  return { binary: false, text: buffer.toString('utf-8') };
+}
+
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+// ============================================
+// Get File Content
+// ============================================
+
+/**
+ * Get a file (or a line range of it) at the PR's head or base commit
+ */
+export async function getFileContent(
+  userId: string,
+  prName: string,
+  filePath: string,
+  options: { ref?: 'head' | 'base'; startLine?: number; endLine?: number } = {}
+): Promise<FileContentResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const ref = options.ref || 'head';
+  const path = filePath.replace(/^\/+/, '');
+
+  const prData = await githubRequest<{
+    head: { sha: string };
+    base: { sha: string };
+  }>(accessToken, `/repos/${owner}/${repo}/pulls/${prNumber}`);
+  const commitSha = ref === 'base' ? prData.base.sha : prData.head.sha;
+
+  console.log(`[GitHub] Fetching ${path} at ${ref} (${commitSha.slice(0, 7)}) for ${owner}/${repo}#${prNumber}`);
+
+  const contents = await githubRequest<
+    | {
+        type: 'file' | 'dir' | 'symlink' | 'submodule';
+        sha: string;
+        size: number;
+        encoding?: string;
+        content?: string;
+        html_url: string;
+      }
+    | unknown[]
+  >(accessToken, `/repos/${owner}/${repo}/contents/${encodePath(path)}?ref=${commitSha}`);
+
+  if (Array.isArray(contents) || contents.type === 'dir') {
+    throw new Error(`"${path}" is a directory, not a file.`);
+  }
+  if (contents.type !== 'file') {
+    throw new Error(`"${path}" is a ${contents.type}, not a regular file.`);
+  }
+
+  const base: FileContentResult = {
+    path,
+    ref,
+    commitSha,
+    blobSha: contents.sha,
+    size: contents.size,
+    htmlUrl: contents.html_url,
+    binary: false,
+    tooLarge: false,
+    totalLines: 0,
+    startLine: 0,
+    endLine: 0,
+    content: '',
+    truncated: false,
+  };
+
+  if (contents.size > MAX_FILE_BYTES) {
+    return { ...base, tooLarge: true };
+  }
+
+  let blob = getCachedBlob(contents.sha);
+  if (blob) {
+    console.log(`[Cache] Blob cache hit for ${contents.sha.slice(0, 7)}`);
+  } else {
+    if (contents.encoding === 'base64' && contents.content !== undefined) {
+      blob = decodeBlob(contents.content);
+    } else {
+      // The contents API leaves out files over 1 MB; the blobs API serves them
+      const gitBlob = await githubRequest<{ content: string; encoding: string }>(
+        accessToken,
+        `/repos/${owner}/${repo}/git/blobs/${contents.sha}`
+      );
+      blob = decodeBlob(gitBlob.content);
+    }
+    setCachedBlob(contents.sha, blob);
+  }
+
+  if (blob.binary) {
+    return { ...base, binary: true };
+  }
+
+  const lines = blob.text.split('\n');
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop(); // Trailing newline doesn't start a new line
+  }
+  const totalLines = lines.length;
+
+  const startLine = Math.max(1, Math.floor(options.startLine ?? 1));
+  const requestedEnd = options.endLine !== undefined
+    ? Math.floor(options.endLine)
+    : startLine + DEFAULT_MAX_LINES - 1;
+  const endLine = Math.min(totalLines, requestedEnd, startLine + MAX_RANGE_LINES - 1);
+
+  if (totalLines > 0 && startLine > totalLines) {
+    throw new Error(`start_line ${startLine} is past the end of "${path}" (${totalLines} lines).`);
+  }
+  if (endLine < startLine && totalLines > 0) {
+    throw new Error(`end_line must be greater than or equal to start_line.`);
+  }
+
+  return {
+    ...base,
+    totalLines,
+    startLine: totalLines > 0 ? startLine : 0,
+    endLine: totalLines > 0 ? endLine : 0,
+    content: lines.slice(startLine - 1, endLine).join('\n'),
+    // More lines were wanted (explicitly or to the end of file) than were returned
+    truncated: endLine < Math.min(totalLines, options.endLine ?? Infinity),
+  };
+}
@@ -1,66 +1,82 @@
 import {
   GitHubPullRequest,
   GitHubTeam,
+  ListPullRequestsFilters,
+  ListPullRequestsOptions,
   ListPullRequestsResult,
+  PullRequestSearchState,
   PullRequestContext,
   FileChange,
   ReviewComment,
   PostReviewResponse,
+  InvalidCommentStrategy,
+  CommitSummary,
+  StaleReviewInfo,
 } from "./types.js";
-import { idempotencyService } from "./idempotency-service.js";
+import { idempotencyService, reviewTag } from "./idempotency-service.js";
 import crypto from "crypto";
 import { getGitHubTokens } from "./token-store.js";
+import {
+  GitHubApiError,
+  githubRequest,
+  githubGraphQL,
+  githubPaginate,
+} from "./github-client.js";
+import {
+  validateReviewComments,
+  type GitHubReviewComment,
+} from "./review-validation.js";
+import { enforceReviewPolicy } from "./review-policy.js";
 
-const GITHUB_API_BASE = "https://api.github.com";
 const DEFAULT_MAX_RESULTS = 10;
 const MAX_LIMIT = 10; // Maximum allowed limit for PR searches
+const SEARCH_RESULT_CEILING = 1000; // GitHub search never returns results past the 1000th
+const PR_FILES_MAX = 3000; // GitHub lists at most 3000 files per pull request
+const PR_REVIEWS_MAX = 500; // Reviews scanned for a duplicate before posting
 
 // testingss
 
 // Active requests lock to prevent duplicate simultaneous calls
 const activeRequests = new Map<string, Promise<PostReviewResponse>>();
 /**
- * Make an authenticated GitHub API request
+ * Resolve the effective PR state for a search.
+ * A merged date range implies merged PRs unless a state was given.
  */
-async function githubRequest<T>(
-  accessToken: string,
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      Accept: "application/vnd.github.v3+json",
-      "User-Agent": "Git-GPT-App",
-      ...options.headers,
-    },
-  });
+function resolveSearchState(options: ListPullRequestsOptions): PullRequestSearchState {
+  const hasMergedRange = Boolean(options.mergedFrom || options.mergedTo);
+  const state = options.state ?? (hasMergedRange ? "merged" : "open");
 
-  if (!response.ok) {
-    const error = await response.text();
+  if (hasMergedRange && (state === "open" || state === "closed")) {
     throw new Error(
-      `GitHub API error: ${response.status} ${response.statusText} - ${error}`
+      `merged_from/merged_to can't be combined with state "${state}". Use state "merged" or "all".`
     );
   }
 
-  return response.json() as Promise<T>;
+  return state;
 }
 
 /**
- * Search for PRs using GitHub search API
+ * Add state, date and repository filters to a search query
  */
-async function searchPullRequests(
-  accessToken: string,
-  query: string,
-  limit: number = DEFAULT_MAX_RESULTS,
-  dateFrom?: string,
-  dateTo?: string,
-  repository?: string
-): Promise<GitHubPullRequest[]> {
-  // Add date filters to query if provided
-  let fullQuery = query;
-  
+function buildSearchQuery(baseQuery: string, options: ListPullRequestsOptions): string {
+  const { dateFrom, dateTo, mergedFrom, mergedTo, repository } = options;
+  let fullQuery = baseQuery;
+
+  switch (resolveSearchState(options)) {
+    case "open":
+      fullQuery += " is:open";
+      break;
+    case "closed":
+      // Closed without being merged
+      fullQuery += " is:closed is:unmerged";
+      break;
+    case "merged":
+      fullQuery += " is:merged";
+      break;
+    case "all":
+      break;
+  }
+
   // Use GitHub's date range syntax when both dates are provided
   if (dateFrom && dateTo) {
     fullQuery += ` updated:${dateFrom}..${dateTo}`;
@@ -69,7 +85,15 @@ async function searchPullRequests(
   } else if (dateTo) {
     fullQuery += ` updated:<=${dateTo}`;
   }
-  
+
+  if (mergedFrom && mergedTo) {
+    fullQuery += ` merged:${mergedFrom}..${mergedTo}`;
+  } else if (mergedFrom) {
+    fullQuery += ` merged:>=${mergedFrom}`;
+  } else if (mergedTo) {
+    fullQuery += ` merged:<=${mergedTo}`;
+  }
+
   // Handle repository filter (supports negation with - prefix)
   if (repository) {
     if (repository.startsWith('-')) {
@@ -80,14 +104,27 @@ async function searchPullRequests(
       fullQuery += ` repo:${repository}`;
     }
   }
-  
-  const searchQuery = encodeURIComponent(`${fullQuery} type:pr`);
-  const url = `/search/issues?q=${searchQuery}&sort=updated&order=desc&per_page=${limit}`;
+
+  return `${fullQuery} type:pr`;
+}
+
+/**
+ * Search for PRs using GitHub search API (a single page of results)
+ */
+async function searchPullRequests(
+  accessToken: string,
+  fullQuery: string,
+  perPage: number = DEFAULT_MAX_RESULTS,
+  page: number = 1
+): Promise<{ pullRequests: GitHubPullRequest[]; totalCount: number }> {
+  const searchQuery = encodeURIComponent(fullQuery);
+  const url = `/search/issues?q=${searchQuery}&sort=updated&order=desc&per_page=${perPage}&page=${page}`;
 
   const result = await githubRequest<{
     total_count: number;
     items: Array<{
       id: number;
+      node_id: string;
       number: number;
       title: string;
       state: string;
@@ -95,6 +132,7 @@ async function searchPullRequests(
       created_at: string;
       updated_at: string;
       draft?: boolean;
+      comments: number;
       user: {
         login: string;
         avatar_url: string;
@@ -110,43 +148,530 @@ async function searchPullRequests(
     }>;
   }>(accessToken, url);
 
+  // Search results only carry merged_at on newer API versions; look up the
+  // closed PRs without it in one batch so merged PRs are never reported as closed.
+  const unknownMergeState = result.items
+    .filter((item) => item.state === "closed" && item.pull_request?.merged_at === undefined)
+    .map((item) => item.node_id);
+  const mergedAtById = await fetchMergedAt(accessToken, unknownMergeState);
+
   // Transform search results to our PR format
-  const prs: GitHubPullRequest[] = await Promise.all(
-    result.items.map(async (item) => {
-      // Extract repo info from repository_url
-      const repoMatch = item.repository_url.match(/repos\/(.+)$/);
-      const repoFullName = repoMatch ? repoMatch[1] : "unknown/unknown";
+  const prs: GitHubPullRequest[] = result.items.map((item) => {
+    // Extract repo info from repository_url
+    const repoMatch = item.repository_url.match(/repos\/(.+)$/);
+    const repoFullName = repoMatch ? repoMatch[1] : "unknown/unknown";
+    const mergedAt = item.pull_request?.merged_at ?? mergedAtById.get(item.node_id) ?? null;
 
-      return {
-        id: item.id,
-        number: item.number,
-        title: item.title,
-        state: item.state as "open" | "closed",
-        html_url: item.html_url,
-        created_at: item.created_at,
-        updated_at: item.updated_at,
-        merged_at: item.pull_request?.merged_at || null,
-        draft: item.draft || false,
-        user: {
-          login: item.user.login,
-          avatar_url: item.user.avatar_url,
-        },
-        repository: {
-          full_name: repoFullName,
-          html_url: `https://github.com/${repoFullName}`,
-        },
-        labels: item.labels.map((l) => ({ name: l.name, color: l.color })),
-      };
-    })
-  );
+    return {
+      id: item.id,
+      number: item.number,
+      title: item.title,
+      state: item.state as "open" | "closed",
+      html_url: item.html_url,
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+      merged_at: mergedAt,
+      draft: item.draft || false,
+      user: {
+        login: item.user.login,
+        avatar_url: item.user.avatar_url,
+      },
+      repository: {
+        full_name: repoFullName,
+        html_url: `https://github.com/${repoFullName}`,
+      },
+      labels: item.labels.map((l) => ({ name: l.name, color: l.color })),
+      comments: item.comments,
+    };
+  });
+
+  return { pullRequests: prs, totalCount: result.total_count };
+}
+
+/**
+ * merged_at for PRs by GraphQL node id, in one request. PRs that weren't
+ * merged, or couldn't be looked up, are left out.
+ */
+async function fetchMergedAt(accessToken: string, nodeIds: string[]): Promise<Map<string, string>> {
+  const mergedAt = new Map<string, string>();
+  if (nodeIds.length === 0) return mergedAt;
+
+  try {
+    const data = await githubGraphQL<{
+      nodes: Array<{ id: string; mergedAt: string | null } | null>;
+    }>(
+      accessToken,
+      `query($ids: [ID!]!) { nodes(ids: $ids) { ... on PullRequest { id mergedAt } } }`,
+      { ids: nodeIds }
+    );
+    for (const node of data.nodes) {
+      if (node?.mergedAt) mergedAt.set(node.id, node.mergedAt);
+    }
+  } catch (error) {
+    console.error("Error fetching merge status for search results:", error);
+  }
+  return mergedAt;
+}
+
+/**
+ * Fetch `count` search results starting at `offset`.
+ * A window of size `count` spans at most two pages of size `count`.
+ */
+async function fetchSearchWindow(
+  accessToken: string,
+  fullQuery: string,
+  offset: number,
+  count: number
+): Promise<{ pullRequests: GitHubPullRequest[]; totalCount: number }> {
+  const firstPage = Math.floor(offset / count) + 1;
+  const lastPage = Math.floor((offset + count - 1) / count) + 1;
+
+  const first = await searchPullRequests(accessToken, fullQuery, count, firstPage);
+  let items = first.pullRequests;
+
+  if (lastPage !== firstPage && (lastPage - 1) * count < Math.min(first.totalCount, SEARCH_RESULT_CEILING)) {
+    const second = await searchPullRequests(accessToken, fullQuery, count, lastPage);
+    items = items.concat(second.pullRequests);
+  }
+
+  const start = offset - (firstPage - 1) * count;
+  return {
+    pullRequests: items.slice(start, start + count),
+    totalCount: first.totalCount,
+  };
+}
+
+// ============================================
+// GraphQL Search
+// ============================================
+
+/**
+ * A slice of one search query's results. GraphQL windows also carry each
+ * result's edge cursor so the next page can resume right after the last one used.
+ */
+interface SearchWindow {
+  pullRequests: GitHubPullRequest[];
+  totalCount: number;
+  cursors?: string[];
+}
+
+const PULL_REQUEST_SEARCH_FIELDS = `
+  fragment PullRequestSearchFields on PullRequest {
+    databaseId
+    number
+    title
+    state
+    url
+    createdAt
+    updatedAt
+    mergedAt
+    isDraft
+    author { login avatarUrl }
+    repository { nameWithOwner url }
+    labels(first: 20) { nodes { name color } }
+    reviewDecision
+    comments { totalCount }
+    commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+    reviewRequests(first: 20) {
+      nodes {
+        requestedReviewer {
+          __typename
+          ... on User { login }
+          ... on Team { name slug }
+        }
+      }
+    }
+  }
+`;
+
+interface GraphQLPullRequestNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  state: "OPEN" | "CLOSED" | "MERGED";
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+  isDraft: boolean;
+  author: { login: string; avatarUrl: string } | null;
+  repository: { nameWithOwner: string; url: string };
+  labels: { nodes: Array<{ name: string; color: string }> };
+  reviewDecision: "APPROVED" | "CHANGES_REQUESTED" | "REVIEW_REQUIRED" | null;
+  comments: { totalCount: number };
+  commits: {
+    nodes: Array<{ commit: { statusCheckRollup: { state: string } | null } }>;
+  };
+  reviewRequests: {
+    nodes: Array<{
+      requestedReviewer:
+        | { __typename: "User"; login: string }
+        | { __typename: "Team"; name: string; slug: string }
+        | { __typename: "Mannequin" | "Bot" }
+        | null;
+    }>;
+  };
+}
+
+interface GraphQLSearchResult {
+  issueCount: number;
+  edges: Array<{ cursor: string; node: GraphQLPullRequestNode | Record<string, never> }>;
+}
+
+function mapCheckRollupState(state: string | undefined): GitHubPullRequest["ci_status"] {
+  switch (state) {
+    case "SUCCESS":
+      return "success";
+    case "FAILURE":
+    case "ERROR":
+      return "failure";
+    case "PENDING":
+    case "EXPECTED":
+      return "pending";
+    default:
+      return null;
+  }
+}
+
+function mapGraphQLPullRequest(node: GraphQLPullRequestNode): GitHubPullRequest {
+  const requestedReviewers: Array<{ login: string }> = [];
+  const requestedTeams: Array<{ name: string; slug: string }> = [];
+  for (const request of node.reviewRequests.nodes) {
+    const reviewer = request.requestedReviewer;
+    if (reviewer?.__typename === "User") {
+      requestedReviewers.push({ login: reviewer.login });
+    } else if (reviewer?.__typename === "Team") {
+      requestedTeams.push({ name: reviewer.name, slug: reviewer.slug });
+    }
+  }
+
+  return {
+    id: node.databaseId,
+    number: node.number,
+    title: node.title,
+    state: node.state === "OPEN" ? "open" : "closed",
+    html_url: node.url,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    merged_at: node.mergedAt,
+    draft: node.isDraft,
+    user: {
+      login: node.author?.login || "ghost",
+      avatar_url: node.author?.avatarUrl || "",
+    },
+    repository: {
+      full_name: node.repository.nameWithOwner,
+      html_url: node.repository.url,
+    },
+    labels: node.labels.nodes.map((l) => ({ name: l.name, color: l.color })),
+    requested_reviewers: requestedReviewers,
+    requested_teams: requestedTeams,
+    comments: node.comments.totalCount,
+    review_decision: node.reviewDecision,
+    ci_status: mapCheckRollupState(node.commits.nodes[0]?.commit.statusCheckRollup?.state),
+  };
+}
+
+/**
+ * Run every active query of a search plan in a single GraphQL request,
+ * one aliased search per query.
+ */
+async function fetchSearchWindowsGraphQL(
+  accessToken: string,
+  plan: SearchPlan,
+  active: boolean[]
+): Promise<SearchWindow[]> {
+  const variableDefs: string[] = ["$first: Int!"];
+  const searches: string[] = [];
+  const variables: Record<string, unknown> = { first: plan.perPage };
+
+  plan.queries.forEach((query, i) => {
+    if (!active[i]) return;
+    variableDefs.push(`$q${i}: String!`, `$a${i}: String`);
+    searches.push(
+      `q${i}: search(query: $q${i}, type: ISSUE, first: $first, after: $a${i}) {
+        issueCount
+        edges { cursor node { ...PullRequestSearchFields } }
+      }`
+    );
+    variables[`q${i}`] = query;
+    variables[`a${i}`] = plan.afters?.[i] ?? null;
+  });
+
+  if (searches.length === 0) {
+    return plan.queries.map((_, i) => ({ pullRequests: [], totalCount: plan.totals?.[i] ?? 0, cursors: [] }));
+  }
 
-  return prs;
+  const gqlQuery = `query SearchPullRequests(${variableDefs.join(", ")}) {
+    ${searches.join("\n")}
+  }
+  ${PULL_REQUEST_SEARCH_FIELDS}`;
+
+  console.log(`[GraphQL] Searching ${searches.length} queries in one request`);
+  const data = await githubGraphQL<Record<string, GraphQLSearchResult>>(accessToken, gqlQuery, variables);
+
+  return plan.queries.map((_, i) => {
+    const result = data[`q${i}`];
+    if (!active[i] || !result) {
+      return { pullRequests: [], totalCount: plan.totals?.[i] ?? 0, cursors: [] };
+    }
+    // Search can return non-PR nodes (empty objects here); drop them
+    const edges = result.edges.filter((e) => "number" in e.node) as Array<{
+      cursor: string;
+      node: GraphQLPullRequestNode;
+    }>;
+    return {
+      pullRequests: edges.map((e) => mapGraphQLPullRequest(e.node)),
+      totalCount: result.issueCount,
+      cursors: edges.map((e) => e.cursor),
+    };
+  });
+}
+
+/**
+ * Fetch each active query of a search plan through the REST search API, one after another
+ */
+async function fetchSearchWindowsREST(
+  accessToken: string,
+  plan: SearchPlan,
+  active: boolean[]
+): Promise<SearchWindow[]> {
+  const windows: SearchWindow[] = [];
+
+  for (let i = 0; i < plan.queries.length; i++) {
+    if (!active[i]) {
+      windows.push({ pullRequests: [], totalCount: plan.totals?.[i] ?? 0 });
+      continue;
+    }
+    console.log(`Searching: ${plan.queries[i]} (offset ${plan.offsets[i]})`);
+    windows.push(
+      await fetchSearchWindow(accessToken, plan.queries[i], plan.offsets[i], plan.perPage)
+    );
+  }
+
+  return windows;
+}
+
+// ============================================
+// Paginated Search Plans
+// ============================================
+
+/**
+ * Everything needed to resume a PR search. Serialized into the opaque
+ * cursor handed to the model, so follow-up calls don't need the original args.
+ */
+interface SearchPlan {
+  searchType: ListPullRequestsResult["searchType"];
+  state: PullRequestSearchState;
+  searchedUser?: string;
+  queries: string[];
+  offsets: number[];
+  afters?: Array<string | null>;  // GraphQL edge cursors, parallel to offsets
+  totals?: number[];
+  perPage: number;
+  filters: ListPullRequestsFilters;
+}
+
+export function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), "utf-8").toString("base64url");
+}
+
+export function decodeCursor<T>(
+  cursor: string,
+  invalidMessage = "Invalid cursor. Start a new search without a cursor."
+): T {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as T;
+  } catch {
+    throw new Error(invalidMessage);
+  }
+}
+
+/**
+ * Decode a search cursor and check it against the plan the server would
+ * build for its filters, so a hand-edited cursor can't run other queries
+ * or fetch oversized pages.
+ */
+async function decodeSearchPlan(
+  accessToken: string,
+  cursor: string,
+  username: string
+): Promise<SearchPlan> {
+  const invalid = () => new Error("Invalid cursor. Start a new search without a cursor.");
+  const plan = decodeCursor<SearchPlan>(cursor);
+  if (
+    !plan ||
+    !Array.isArray(plan.queries) ||
+    !Array.isArray(plan.offsets) ||
+    plan.queries.length !== plan.offsets.length ||
+    !plan.offsets.every((offset) => Number.isInteger(offset) && offset >= 0) ||
+    !Number.isInteger(plan.perPage) ||
+    plan.perPage < 1 ||
+    !plan.filters ||
+    typeof plan.filters !== "object"
+  ) {
+    throw invalid();
+  }
+
+  let expected: SearchPlan;
+  switch (plan.searchType) {
+    case "authored":
+      expected = newSearchPlan(
+        "authored",
+        [buildSearchQuery(`author:${username}`, plan.filters)],
+        plan.perPage,
+        plan.filters
+      );
+      break;
+    case "user_authored":
+      if (!plan.searchedUser) throw invalid();
+      expected = newSearchPlan(
+        "user_authored",
+        [buildSearchQuery(`author:${plan.searchedUser}`, plan.filters)],
+        plan.perPage,
+        plan.filters,
+        plan.searchedUser
+      );
+      break;
+    case "involved":
+      expected = newSearchPlan(
+        "involved",
+        [buildSearchQuery(`involves:${username}`, plan.filters)],
+        plan.perPage,
+        plan.filters
+      );
+      break;
+    case "reviewing":
+      expected = await buildReviewingPlan(accessToken, username, plan.perPage, plan.filters);
+      break;
+    default:
+      throw invalid();
+  }
+  if (
+    plan.state !== expected.state ||
+    plan.queries.length !== expected.queries.length ||
+    plan.queries.some((query, i) => query !== expected.queries[i])
+  ) {
+    throw invalid();
+  }
+
+  return { ...plan, perPage: Math.min(plan.perPage, MAX_LIMIT) };
+}
+
+function newSearchPlan(
+  searchType: SearchPlan["searchType"],
+  queries: string[],
+  perPage: number,
+  options: ListPullRequestsOptions,
+  searchedUser?: string
+): SearchPlan {
+  const { cursor: _cursor, ...filters } = options;
+  return {
+    searchType,
+    state: resolveSearchState(options),
+    searchedUser,
+    queries,
+    offsets: queries.map(() => 0),
+    perPage,
+    filters,
+  };
+}
+
+function isNewer(a: GitHubPullRequest, b: GitHubPullRequest): boolean {
+  return new Date(a.updated_at).getTime() > new Date(b.updated_at).getTime();
+}
+
+/**
+ * Fetch the next page of a search plan.
+ * Plans with several queries (direct + team review requests) are merged by
+ * updated_at, de-duplicated, and each query's offset advances by what it contributed.
+ */
+async function runSearchPlan(
+  accessToken: string,
+  plan: SearchPlan
+): Promise<ListPullRequestsResult> {
+  const active = plan.queries.map((_, i) => {
+    const knownTotal = plan.totals?.[i];
+    return plan.offsets[i] < Math.min(knownTotal ?? SEARCH_RESULT_CEILING, SEARCH_RESULT_CEILING);
+  });
+
+  // GraphQL can only resume a query it has an edge cursor for
+  const canUseGraphQL = plan.offsets.every((offset, i) => offset === 0 || !active[i] || plan.afters?.[i]);
+
+  let windows: SearchWindow[];
+  if (canUseGraphQL) {
+    try {
+      windows = await fetchSearchWindowsGraphQL(accessToken, plan, active);
+    } catch (error) {
+      console.error("GraphQL search failed, falling back to REST search:", error);
+      windows = await fetchSearchWindowsREST(accessToken, plan, active);
+    }
+  } else {
+    windows = await fetchSearchWindowsREST(accessToken, plan, active);
+  }
+
+  const totals = windows.map((w) => w.totalCount);
+  const reachable = totals.map((t) => Math.min(t, SEARCH_RESULT_CEILING));
+  const heads = windows.map(() => 0);
+  const seen = new Set<number>();
+  const pullRequests: GitHubPullRequest[] = [];
+
+  while (pullRequests.length < plan.perPage) {
+    // A drained window whose query has more results means we can't tell
+    // what sorts next without fetching again, so stop here.
+    const drained = windows.some(
+      (w, i) => heads[i] >= w.pullRequests.length && plan.offsets[i] + heads[i] < reachable[i]
+    );
+    if (drained) break;
+
+    let best = -1;
+    for (let i = 0; i < windows.length; i++) {
+      if (heads[i] >= windows[i].pullRequests.length) continue;
+      if (best < 0 || isNewer(windows[i].pullRequests[heads[i]], windows[best].pullRequests[heads[best]])) {
+        best = i;
+      }
+    }
+    if (best < 0) break;
+
+    const pr = windows[best].pullRequests[heads[best]++];
+    if (!seen.has(pr.id)) {
+      seen.add(pr.id);
+      pullRequests.push(pr);
+    }
+  }
+
+  // Skip copies of PRs we just returned that sit at the front of other queries
+  windows.forEach((w, i) => {
+    while (heads[i] < w.pullRequests.length && seen.has(w.pullRequests[heads[i]].id)) {
+      heads[i]++;
+    }
+  });
+
+  const offsets = plan.offsets.map((offset, i) => offset + heads[i]);
+  // A page that consumed nothing would hand back the same cursor forever
+  const progressed = heads.some((head) => head > 0);
+  const hasMore = progressed && offsets.some((offset, i) => offset < reachable[i]);
+  const afters = windows.every((w) => w.cursors)
+    ? windows.map((w, i) => (heads[i] > 0 ? w.cursors![heads[i] - 1] : plan.afters?.[i] ?? null))
+    : undefined;
+
+  return {
+    pullRequests,
+    searchType: plan.searchType,
+    state: plan.state ?? "open",
+    searchedUser: plan.searchedUser,
+    // With several queries this is an upper bound: a PR requested both
+    // directly and via a team is counted once per query.
+    totalCount: totals.reduce((sum, t) => sum + t, 0),
+    nextCursor: hasMore ? encodeCursor({ ...plan, offsets, afters, totals }) : undefined,
+    filters: plan.filters,
+  };
 }
 
 /**
  * Get teams the authenticated user belongs to
  */
-async function getUserTeams(accessToken: string): Promise<GitHubTeam[]> {
+export async function getUserTeams(accessToken: string): Promise<GitHubTeam[]> {
   try {
     const teams = await githubRequest<
       Array<{
@@ -176,11 +701,34 @@ async function getUserTeams(accessToken: string): Promise<GitHubTeam[]> {
 /**
  * Get the authenticated user's login
  */
-async function getAuthenticatedUserLogin(accessToken: string): Promise<string> {
+export async function getAuthenticatedUserLogin(accessToken: string): Promise<string> {
   const user = await githubRequest<{ login: string }>(accessToken, "/user");
   return user.login;
 }
 
+/**
+ * Build the search plan for PRs where the user is a reviewer (direct or via team)
+ */
+async function buildReviewingPlan(
+  accessToken: string,
+  username: string,
+  perPage: number,
+  options: ListPullRequestsOptions
+): Promise<SearchPlan> {
+  const queries = [buildSearchQuery(`review-requested:${username}`, options)];
+
+  const teams = await getUserTeams(accessToken);
+  console.log(`User belongs to ${teams.length} teams`);
+
+  for (const team of teams) {
+    queries.push(
+      buildSearchQuery(`team-review-requested:${team.organization.login}/${team.slug}`, options)
+    );
+  }
+
+  return newSearchPlan("reviewing", queries, perPage, options);
+}
+
 /**
  * List pull requests with priority cascade:
  * 1. PRs where user is author
@@ -189,15 +737,11 @@ async function getAuthenticatedUserLogin(accessToken: string): Promise<string> {
  *
  * If a specific user is provided, show PRs where that user is the author.
  * If filterType is specified, only search that type. Otherwise use priority cascade.
+ * If a cursor from a previous result is provided, returns the next page of that search.
  */
 export async function listPullRequests(
   userId: string,
-  specifiedUser?: string,
-  limit: number = DEFAULT_MAX_RESULTS,
-  dateFrom?: string,
-  dateTo?: string,
-  repository?: string,
-  filterType?: 'authored' | 'reviewing' | 'involved'
+  options: ListPullRequestsOptions = {}
 ): Promise<ListPullRequestsResult> {
   const storedData = getGitHubTokens(userId);
 
@@ -205,197 +749,89 @@ export async function listPullRequests(
     throw new Error("Not authenticated with GitHub");
   }
 
-  // Enforce maximum limit
-  const cappedLimit = Math.min(limit, MAX_LIMIT);
-
   const accessToken = storedData.tokens.access_token;
+
   const myUsername =
     storedData.user?.login || (await getAuthenticatedUserLogin(accessToken));
 
-  // If a specific user is provided, search for their authored PRs
-  if (specifiedUser) {
-    const prs = await searchPullRequests(
-      accessToken,
-      `author:${specifiedUser} is:open`,
+  // Continue a previous search
+  if (options.cursor) {
+    return runSearchPlan(accessToken, await decodeSearchPlan(accessToken, options.cursor, myUsername));
+  }
+
+  const { specifiedUser, filterType } = options;
+
+  // Enforce maximum page size
+  const cappedLimit = Math.min(options.limit ?? DEFAULT_MAX_RESULTS, MAX_LIMIT);
+
+  const authoredPlan = (login: string, searchType: "authored" | "user_authored") =>
+    newSearchPlan(
+      searchType,
+      [buildSearchQuery(`author:${login}`, options)],
       cappedLimit,
-      dateFrom,
-      dateTo,
-      repository
+      options,
+      searchType === "user_authored" ? login : undefined
     );
-    return {
-      pullRequests: prs,
-      searchType: "user_authored",
-      searchedUser: specifiedUser,
-      totalCount: prs.length,
-    };
+  const involvedPlan = () =>
+    newSearchPlan(
+      "involved",
+      [buildSearchQuery(`involves:${myUsername}`, options)],
+      cappedLimit,
+      options
+    );
+
+  // If a specific user is provided, search for their authored PRs
+  if (specifiedUser) {
+    return runSearchPlan(accessToken, authoredPlan(specifiedUser, "user_authored"));
   }
 
   // If a specific filter type is requested, only search that type
   if (filterType === 'authored') {
-    console.log(`Searching for open PRs authored by ${myUsername}...`);
-    const authoredPRs = await searchPullRequests(
-      accessToken,
-      `author:${myUsername} is:open`,
-      cappedLimit,
-      dateFrom,
-      dateTo,
-      repository
-    );
-    console.log(`Found ${authoredPRs.length} authored PRs`);
-    return {
-      pullRequests: authoredPRs,
-      searchType: "authored",
-      totalCount: authoredPRs.length,
-    };
+    console.log(`Searching for PRs authored by ${myUsername}...`);
+    return runSearchPlan(accessToken, authoredPlan(myUsername, "authored"));
   }
 
   if (filterType === 'reviewing') {
     console.log(`Searching for PRs where ${myUsername} is a reviewer...`);
-    
-    // Direct review requests
-    let reviewingPRs = await searchPullRequests(
+    return runSearchPlan(
       accessToken,
-      `review-requested:${myUsername} is:open`,
-      cappedLimit,
-      dateFrom,
-      dateTo,
-      repository
+      await buildReviewingPlan(accessToken, myUsername, cappedLimit, options)
     );
-
-    // Team-based review requests
-    const teams = await getUserTeams(accessToken);
-    console.log(`User belongs to ${teams.length} teams`);
-
-    for (const team of teams) {
-      const teamQuery = `team-review-requested:${team.organization.login}/${team.slug} is:open`;
-      console.log(`Searching for team reviews: ${teamQuery}`);
-      const teamPRs = await searchPullRequests(accessToken, teamQuery, cappedLimit, dateFrom, dateTo, repository);
-
-      // Merge team PRs, avoiding duplicates
-      for (const pr of teamPRs) {
-        if (!reviewingPRs.find((existing) => existing.id === pr.id)) {
-          reviewingPRs.push(pr);
-        }
-      }
-    }
-
-    // Sort by updated_at and limit to user-specified limit
-    reviewingPRs.sort(
-      (a, b) =>
-        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
-    );
-    reviewingPRs = reviewingPRs.slice(0, cappedLimit);
-
-    console.log(`Found ${reviewingPRs.length} PRs to review`);
-    return {
-      pullRequests: reviewingPRs,
-      searchType: "reviewing",
-      totalCount: reviewingPRs.length,
-    };
   }
 
   if (filterType === 'involved') {
     console.log(`Searching for PRs where ${myUsername} is involved...`);
-    const involvedPRs = await searchPullRequests(
-      accessToken,
-      `involves:${myUsername} is:open`,
-      cappedLimit,
-      dateFrom,
-      dateTo,
-      repository
-    );
-    console.log(`Found ${involvedPRs.length} involved PRs`);
-    return {
-      pullRequests: involvedPRs,
-      searchType: "involved",
-      totalCount: involvedPRs.length,
-    };
+    return runSearchPlan(accessToken, involvedPlan());
   }
 
   // Default behavior: Priority cascade
   // Priority 1: PRs where I am the author
-  console.log(`Searching for open PRs authored by ${myUsername}...`);
-  const authoredPRs = await searchPullRequests(
-    accessToken,
-    `author:${myUsername} is:open`,
-    cappedLimit,
-    dateFrom,
-    dateTo,
-    repository
-  );
+  console.log(`Searching for PRs authored by ${myUsername}...`);
+  const authored = await runSearchPlan(accessToken, authoredPlan(myUsername, "authored"));
 
-  if (authoredPRs.length > 0) {
-    console.log(`Found ${authoredPRs.length} authored PRs`);
-    return {
-      pullRequests: authoredPRs,
-      searchType: "authored",
-      totalCount: authoredPRs.length,
-    };
+  if (authored.pullRequests.length > 0) {
+    console.log(`Found ${authored.totalCount} authored PRs`);
+    return authored;
   }
 
   // Priority 2: PRs where I am a reviewer (direct + team-based)
   console.log(`No authored PRs found. Searching for review requests...`);
-
-  // Direct review requests
-  let reviewingPRs = await searchPullRequests(
+  const reviewing = await runSearchPlan(
     accessToken,
-    `review-requested:${myUsername} is:open`,
-    cappedLimit,
-    dateFrom,
-    dateTo,
-    repository
+    await buildReviewingPlan(accessToken, myUsername, cappedLimit, options)
   );
 
-  // Team-based review requests
-  const teams = await getUserTeams(accessToken);
-  console.log(`User belongs to ${teams.length} teams`);
-
-  for (const team of teams) {
-    const teamQuery = `team-review-requested:${team.organization.login}/${team.slug} is:open`;
-    console.log(`Searching for team reviews: ${teamQuery}`);
-    const teamPRs = await searchPullRequests(accessToken, teamQuery, cappedLimit, dateFrom, dateTo, repository);
-
-    // Merge team PRs, avoiding duplicates
-    for (const pr of teamPRs) {
-      if (!reviewingPRs.find((existing) => existing.id === pr.id)) {
-        reviewingPRs.push(pr);
-      }
-    }
-  }
-
-  // Sort by updated_at and limit to user-specified limit
-  reviewingPRs.sort(
-    (a, b) =>
-      new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
-  );
-  reviewingPRs = reviewingPRs.slice(0, cappedLimit);
-
-  if (reviewingPRs.length > 0) {
-    console.log(`Found ${reviewingPRs.length} PRs to review`);
-    return {
-      pullRequests: reviewingPRs,
-      searchType: "reviewing",
-      totalCount: reviewingPRs.length,
-    };
+  if (reviewing.pullRequests.length > 0) {
+    console.log(`Found ${reviewing.pullRequests.length} PRs to review`);
+    return reviewing;
   }
 
   // Priority 3: PRs where I am involved (mentioned, commented, etc.)
   console.log(`No review requests found. Searching for involved PRs...`);
-  const involvedPRs = await searchPullRequests(
-    accessToken,
-    `involves:${myUsername} is:open`,
-    cappedLimit,
-    dateFrom,
-    dateTo,
-    repository
-  );
+  const involved = await runSearchPlan(accessToken, involvedPlan());
 
-  console.log(`Found ${involvedPRs.length} involved PRs`);
-  return {
-    pullRequests: involvedPRs,
-    searchType: "involved",
-    totalCount: involvedPRs.length,
-  };
+  console.log(`Found ${involved.totalCount} involved PRs`);
+  return involved;
 }
 
 /**
@@ -408,6 +844,7 @@ export function hasGitHubAuth(userId: string): boolean {
 
 // ============================================
 // PR Context Cache (in-memory with TTL)
+// Entries are revalidated against the PR on every read; the TTL only bounds memory.
 // ============================================
 
 interface CacheEntry<T> {
@@ -427,7 +864,6 @@ function getCachedPRContext(cacheKey: string): PullRequestContext | null {
     return null;
   }
 
-  console.log(`[Cache] PR context cache hit for ${cacheKey}`);
   return entry.data;
 }
 
@@ -457,7 +893,7 @@ setInterval(() => {
 // PR Identifier Parsing
 // ============================================
 
-interface ParsedPRIdentifier {
+export interface ParsedPRIdentifier {
   owner: string;
   repo: string;
   prNumber: number;
@@ -544,28 +980,15 @@ async function findPRByNumber(
   return null;
 }
 
-// ============================================
-// Get Pull Request Context
-// ============================================
-
 /**
- * Get full context for a pull request including files and diffs.
- * Supports multiple PR identifier formats.
+ * Resolve any supported PR identifier to owner/repo/number.
+ * Short forms ("pr-123", "#123", "123") are looked up in the user's recent PRs.
  */
-export async function getPullRequestContext(
-  userId: string,
-  prName: string
-): Promise<PullRequestContext> {
-  const storedData = getGitHubTokens(userId);
-
-  if (!storedData?.tokens?.access_token) {
-    throw new Error("Not authenticated with GitHub");
-  }
-
-  const accessToken = storedData.tokens.access_token;
-  const username = storedData.user?.login;
-
-  // Parse PR identifier
+export async function resolvePRIdentifier(
+  accessToken: string,
+  prName: string,
+  username?: string
+): Promise<ParsedPRIdentifier> {
   let parsed = parsePRIdentifier(prName);
 
   // If simple format (pr-123), try to find the PR
@@ -586,18 +1009,120 @@ export async function getPullRequestContext(
     );
   }
 
-  const { owner, repo, prNumber } = parsed;
+  return parsed;
+}
+
+/**
+ * Get the stored GitHub session for a user, or throw if they haven't connected GitHub
+ */
+export function requireGitHubSession(userId: string): { accessToken: string; username?: string } {
+  const storedData = getGitHubTokens(userId);
+
+  if (!storedData?.tokens?.access_token) {
+    throw new Error("Not authenticated with GitHub");
+  }
+
+  return {
+    accessToken: storedData.tokens.access_token,
+    username: storedData.user?.login,
+  };
+}
+
+// ============================================
+// Get Pull Request Context
+// ============================================
+
+// Git's blob id for a zero-byte file
+const EMPTY_BLOB_SHA = "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391";
+
+/**
+ * Why GitHub left out a file's patch, if it did.
+ * Files with line changes but no patch were too large to diff. With no line
+ * changes, an empty blob was added or removed empty; anything else is binary
+ * or only changed its mode (pure renames have nothing to show).
+ */
+function getPatchUnavailableReason(file: {
+  sha: string;
+  status: string;
+  changes: number;
+  patch?: string;
+}): FileChange["patchUnavailableReason"] {
+  if (file.patch !== undefined) return undefined;
+  if (file.changes > 0) return "too_large";
+  if (file.status === "renamed" || file.status === "unchanged") return undefined;
+  if (file.sha === EMPTY_BLOB_SHA) return "empty";
+  return "binary";
+}
+
+/**
+ * A changed file as listed by the PR files and compare APIs
+ */
+export interface GitHubFileData {
+  sha: string;
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  patch?: string;
+  previous_filename?: string;
+}
+
+export function toFileChange(file: GitHubFileData): FileChange {
+  const patchUnavailableReason = getPatchUnavailableReason(file);
+  return {
+    filename: file.filename,
+    status: file.status as FileChange["status"],
+    additions: file.additions,
+    deletions: file.deletions,
+    changes: file.changes,
+    patch: file.patch,
+    previous_filename: file.previous_filename,
+    ...(patchUnavailableReason && {
+      truncated: patchUnavailableReason === "too_large",
+      patchUnavailableReason,
+    }),
+  };
+}
+
+/**
+ * Get full context for a pull request including files and diffs.
+ * Supports multiple PR identifier formats.
+ */
+export async function getPullRequestContext(
+  userId: string,
+  prName: string
+): Promise<PullRequestContext> {
+  const storedData = getGitHubTokens(userId);
+
+  if (!storedData?.tokens?.access_token) {
+    throw new Error("Not authenticated with GitHub");
+  }
+
+  const accessToken = storedData.tokens.access_token;
+  const identifier = await resolvePRIdentifier(
+    accessToken,
+    prName,
+    storedData.user?.login
+  );
+  return loadPullRequestContext(userId, accessToken, identifier);
+}
+
+/**
+ * Load (or revalidate) the context of an already-resolved PR
+ */
+export async function loadPullRequestContext(
+  userId: string,
+  accessToken: string,
+  { owner, repo, prNumber }: ParsedPRIdentifier
+): Promise<PullRequestContext> {
   const cacheKey = `${userId}:${owner}/${repo}#${prNumber}`;
 
-  // Check cache first
   const cached = getCachedPRContext(cacheKey);
-  if (cached) {
-    return cached;
-  }
 
   console.log(`[GitHub] Fetching PR context for ${owner}/${repo}#${prNumber}`);
 
-  // Fetch PR details
+  // Fetch PR details (a conditional request, so revalidating an unchanged PR is free)
   const prData = await githubRequest<{
     id: number;
     number: number;
@@ -629,33 +1154,24 @@ export async function getPullRequestContext(
     requested_reviewers: Array<{ login: string; avatar_url: string }>;
   }>(accessToken, `/repos/${owner}/${repo}/pulls/${prNumber}`);
 
-  // Fetch changed files with patches
-  const filesData = await githubRequest<
-    Array<{
-      sha: string;
-      filename: string;
-      status: string;
-      additions: number;
-      deletions: number;
-      changes: number;
-      patch?: string;
-      previous_filename?: string;
-    }>
-  >(
-    accessToken,
-    `/repos/${owner}/${repo}/pulls/${prNumber}/files?per_page=100`
-  );
-
-  // Build file changes with patches
-  const files: FileChange[] = filesData.map((file) => ({
-    filename: file.filename,
-    status: file.status as FileChange["status"],
-    additions: file.additions,
-    deletions: file.deletions,
-    changes: file.changes,
-    patch: file.patch,
-    previous_filename: file.previous_filename,
-  }));
+  // Reuse cached files while the head and base commits are unchanged
+  let files: FileChange[];
+  if (
+    cached &&
+    cached.pr.headSha === prData.head.sha &&
+    cached.pr.baseSha === prData.base.sha
+  ) {
+    console.log(`[Cache] PR context revalidated for ${cacheKey}`);
+    files = cached.files;
+  } else {
+    // Fetch changed files with patches, following pagination up to GitHub's ceiling
+    const filesData = await githubPaginate<GitHubFileData>(
+      accessToken,
+      `/repos/${owner}/${repo}/pulls/${prNumber}/files?per_page=100`,
+      PR_FILES_MAX
+    );
+    files = filesData.map(toFileChange);
+  }
 
   // Determine state
   let state: "open" | "closed" | "merged" = prData.state as "open" | "closed";
@@ -689,6 +1205,7 @@ export async function getPullRequestContext(
     additions: prData.additions,
     deletions: prData.deletions,
     changedFiles: prData.changed_files,
+    filesTruncated: files.length < prData.changed_files,
     mergeable: prData.mergeable ?? undefined,
     mergeableState: prData.mergeable_state,
     labels: prData.labels.map((l) => ({ name: l.name, color: l.color })),
@@ -704,6 +1221,76 @@ export async function getPullRequestContext(
   return context;
 }
 
+// ============================================
+// Commit Comparison
+// ============================================
+
+const NEW_COMMITS_SHOWN = 20;
+
+export interface GitHubCommitData {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: { name: string; date: string } | null;
+    committer: { date: string } | null;
+    verification?: { verified: boolean; reason: string };
+  };
+  author: { login: string } | null;  // Null when the git author isn't linked to an account
+  parents: Array<{ sha: string }>;
+}
+
+export function toCommitSummary(data: GitHubCommitData): CommitSummary {
+  return {
+    sha: data.sha,
+    message: data.commit.message.split("\n")[0],
+    author: data.author?.login || data.commit.author?.name || "unknown",
+    date: data.commit.author?.date || null,
+  };
+}
+
+/**
+ * How the PR head moved since the commit a review was written against,
+ * or null if it hasn't. Accepts abbreviated SHAs.
+ */
+export async function describeHeadChange(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  reviewedSha: string,
+  headSha: string
+): Promise<StaleReviewInfo | null> {
+  if (headSha.toLowerCase().startsWith(reviewedSha.toLowerCase())) {
+    return null;
+  }
+
+  try {
+    const comparison = await githubRequest<{
+      status: "ahead" | "behind" | "diverged" | "identical";
+      total_commits: number;
+      commits: GitHubCommitData[];
+    }>(accessToken, `/repos/${owner}/${repo}/compare/${reviewedSha}...${headSha}`);
+
+    if (comparison.status === "identical") {
+      return null;
+    }
+    // Commits on the head that the reviewed commit doesn't have, oldest first
+    return {
+      reviewedSha,
+      headSha,
+      relation: comparison.status === "ahead" ? "ahead" : "diverged",
+      newCommits: comparison.commits.slice(-NEW_COMMITS_SHOWN).map(toCommitSummary),
+      totalNewCommits: comparison.total_commits,
+    };
+  } catch (error) {
+    // The reviewed commit is no longer in the repository, e.g. after a force-push
+    if (error instanceof GitHubApiError && (error.status === 404 || error.status === 422)) {
+      return { reviewedSha, headSha, relation: "diverged", newCommits: [], totalNewCommits: 0 };
+    }
+    throw error;
+  }
+}
+
 // ============================================
 // Post Review Comments
 // ============================================
@@ -712,13 +1299,17 @@ export async function getPullRequestContext(
  * Post review comments to a pull request.
  * Supports inline comments (with path + line) and general comments.
  * Includes idempotency protection to prevent duplicate posts on retries.
+ * Nothing is posted if the PR head has moved past reviewedSha.
  */
 export async function postReviewComments(
   userId: string,
   prName: string,
   comments: ReviewComment[],
   event: "COMMENT" | "APPROVE" | "REQUEST_CHANGES" = "COMMENT",
-  idempotencyKey: string
+  idempotencyKey: string,
+  onInvalidComment: InvalidCommentStrategy = "snap",
+  reviewedSha: string,
+  confirmationCode?: string
 ): Promise<PostReviewResponse> {
   const storedData = getGitHubTokens(userId);
 
@@ -757,17 +1348,28 @@ export async function postReviewComments(
   setTimeout(() => activeRequests.delete(lockKey), 10000);
 
   try {
-    return await executePostReview(
+    const response = await executePostReview(
       userId,
       prName,
       comments,
       event,
       idempotencyKey,
+      onInvalidComment,
+      reviewedSha,
+      confirmationCode,
       accessToken,
-      normalizedPrName,
-      resolveLock!
+      normalizedPrName
     );
+    // Resolve the lock so waiting requests get the result
+    resolveLock!(response);
+    // Failures aren't cached and get retried once fixed (new head_sha, corrected
+    // lines), so only a posted review holds the lock
+    if (!response.success) {
+      activeRequests.delete(lockKey);
+    }
+    return response;
   } catch (error) {
+    activeRequests.delete(lockKey);
     // Resolve lock with error response so waiting requests don't hang
     const errorResponse: PostReviewResponse = {
       success: false,
@@ -780,15 +1382,61 @@ export async function postReviewComments(
   }
 }
 
+/**
+ * Find a review the user already posted with the same body and inline
+ * comments. Dismissed reviews don't count, and neither does one whose
+ * comments were since deleted, so a corrected review can be re-posted.
+ */
+async function findDuplicateReview(
+  accessToken: string,
+  pullPath: string,
+  login: string,
+  reviewBody: string,
+  inlineComments: GitHubReviewComment[]
+): Promise<{ id: number } | undefined> {
+  const existingReviews = await githubPaginate<{
+    id: number;
+    user: { login: string } | null;
+    body: string | null;
+    state: string;
+  }>(accessToken, `${pullPath}/reviews?per_page=100`, PR_REVIEWS_MAX);
+
+  const normalize = (text: string) => text.trim().toLowerCase();
+  const commentKeys = (items: Array<{ path: string; body: string }>) =>
+    items.map((c) => `${c.path}\n${c.body.trim()}`).sort().join("\n\n");
+  const expectedComments = commentKeys(inlineComments);
+
+  for (const review of existingReviews) {
+    if (
+      review.state === "DISMISSED" ||
+      review.user?.login.toLowerCase() !== login.toLowerCase() ||
+      normalize(review.body || "") !== normalize(reviewBody)
+    ) {
+      continue;
+    }
+    const reviewComments = await githubPaginate<{ path: string; body: string }>(
+      accessToken,
+      `${pullPath}/reviews/${review.id}/comments?per_page=100`,
+      PR_REVIEWS_MAX
+    );
+    if (commentKeys(reviewComments) === expectedComments) {
+      return review;
+    }
+  }
+  return undefined;
+}
+
 async function executePostReview(
   userId: string,
   prName: string,
   comments: ReviewComment[],
   event: "COMMENT" | "APPROVE" | "REQUEST_CHANGES",
   idempotencyKey: string,
+  onInvalidComment: InvalidCommentStrategy,
+  reviewedSha: string,
+  confirmationCode: string | undefined,
   accessToken: string,
-  normalizedPrName: string,
-  resolveLock: (result: PostReviewResponse) => void
+  normalizedPrName: string
 ): Promise<PostReviewResponse> {
   // Generate payload hash for content-based deduplication
   const normalizeComment = (c: ReviewComment) => ({
@@ -796,11 +1444,15 @@ async function executePostReview(
     path: c?.path ? String(c.path) : undefined,
     line: typeof c?.line === "number" ? c.line : undefined,
     side: c?.side ? String(c.side) : undefined,
+    start_line: typeof c?.start_line === "number" ? c.start_line : undefined,
+    start_side: c?.start_side ? String(c.start_side) : undefined,
+    suggestion: typeof c?.suggestion === "string" ? c.suggestion : undefined,
   });
 
   const payload = {
     prName: normalizedPrName,
     event,
+    onInvalidComment,
     comments: Array.isArray(comments) ? comments.map(normalizeComment) : [],
   };
 
@@ -836,67 +1488,80 @@ async function executePostReview(
     }
   }
 
-  // Parse PR identifier
-  let parsed = parsePRIdentifier(prName);
+  const identifier = await resolvePRIdentifier(
+    accessToken,
+    prName,
+    getGitHubTokens(userId)?.user?.login
+  );
+  const { owner, repo, prNumber } = identifier;
 
-  if (!parsed) {
-    const numberMatch = prName.match(/(\d+)/);
-    const storedData = getGitHubTokens(userId);
-    const username = storedData?.user?.login;
-    if (numberMatch && username) {
-      const prNumber = parseInt(numberMatch[1], 10);
-      const found = await findPRByNumber(accessToken, prNumber, username);
-      if (found) {
-        parsed = { ...found, prNumber };
-      }
-    }
-  }
+  const context = await loadPullRequestContext(userId, accessToken, identifier);
 
-  if (!parsed) {
-    throw new Error(
-      `Invalid PR identifier format: "${prName}". Use format like "owner/repo#123".`
+  // Don't post comments written for one revision onto another
+  const staleReview = await describeHeadChange(
+    accessToken,
+    owner,
+    repo,
+    reviewedSha,
+    context.pr.headSha
+  );
+  if (staleReview) {
+    console.log(
+      `[PostReview] PR head moved from ${reviewedSha} to ${context.pr.headSha}, not posting`
     );
+    // Not marked as processed, so the same key can be used after re-reviewing
+    const response: PostReviewResponse = {
+      success: false,
+      prUrl: context.pr.htmlUrl,
+      commentsPosted: 0,
+      message: `PR #${prNumber} changed since you reviewed it: the head is now ${context.pr.headSha.slice(0, 7)}, not ${reviewedSha.slice(0, 7)}. Nothing was posted.`,
+      staleReview,
+    };
+    return response;
   }
 
-  const { owner, repo, prNumber } = parsed;
-
-  // Check GitHub for existing reviews with same content (persistent duplicate check)
-  const existingReviews = await githubRequest<
-    Array<{
-      id: number;
-      body: string | null;
-      state: string;
-    }>
-  >(accessToken, `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`);
-
-  // Separate inline comments from general comments
-  const inlineComments = comments.filter((c) => c.path && c.line);
-  const generalComments = comments.filter((c) => !c.path || !c.line);
+  // Check inline comments against the diff before GitHub sees them
+  const { inlineComments, reviewBody, results } = validateReviewComments(
+    comments,
+    context,
+    onInvalidComment
+  );
+  const rejected = results.filter((r) => r.status === "rejected");
+  const prUrl = context.pr.htmlUrl;
 
-  // Build review body from general comments
-  const reviewBody = generalComments
-    .map((c) => c.body)
-    .filter(Boolean)
-    .join("\n\n");
+  // Throws a ReviewPolicyError for approvals and change requests the policy refuses
+  const policyClearance = await enforceReviewPolicy({
+    userId,
+    accessToken,
+    username: getGitHubTokens(userId)?.user?.login,
+    identifier,
+    author: context.pr.author,
+    headSha: context.pr.headSha,
+    event,
+    inlineComments: inlineComments.length,
+    content: JSON.stringify({ body: reviewBody, comments: inlineComments }),
+    confirmationCode,
+  });
 
-  // Check if this exact review body already exists
+  // Check GitHub for a review of ours with the same content (persistent duplicate check)
   if (reviewBody) {
-    const duplicateReview = existingReviews.find(
-      (r) => r.body?.trim().toLowerCase() === reviewBody.trim().toLowerCase()
+    const duplicateReview = await findDuplicateReview(
+      accessToken,
+      `/repos/${owner}/${repo}/pulls/${prNumber}`,
+      getGitHubTokens(userId)?.user?.login ||
+        (await getAuthenticatedUserLogin(accessToken)),
+      reviewBody,
+      inlineComments
     );
     if (duplicateReview) {
       console.log(
         `[PostReview] Duplicate review found on GitHub (ID: ${duplicateReview.id}), skipping post`
       );
-      const prData = await githubRequest<{ html_url: string }>(
-        accessToken,
-        `/repos/${owner}/${repo}/pulls/${prNumber}`
-      );
-      const reviewUrl = `${prData.html_url}#pullrequestreview-${duplicateReview.id}`;
+      const reviewUrl = `${prUrl}#pullrequestreview-${duplicateReview.id}`;
       return {
         success: true,
         reviewId: duplicateReview.id,
-        prUrl: prData.html_url,
+        prUrl,
         reviewUrl,
         commentsPosted: 0,
         message: `Review already exists on PR #${prNumber} (duplicate prevented)`,
@@ -908,61 +1573,76 @@ async function executePostReview(
   const shouldCreateReview =
     inlineComments.length > 0 || event !== "COMMENT" || Boolean(reviewBody);
 
-  let reviewId: number | undefined;
-
-  if (shouldCreateReview) {
-    // Format inline comments for GitHub API
-    const reviewComments = inlineComments.map((comment) => ({
-      path: comment.path!,
-      line: comment.line!,
-      side: comment.side || "RIGHT",
-      body: comment.body,
-    }));
+  if (!shouldCreateReview) {
+    // Every comment was rejected; nothing is posted and the key stays usable
+    const response: PostReviewResponse = {
+      success: false,
+      prUrl,
+      commentsPosted: 0,
+      message: rejected.length > 0
+        ? `No review posted to PR #${prNumber}: all ${rejected.length} inline comment(s) were rejected. Fix their path/line and retry.`
+        : `No review posted to PR #${prNumber}: there was nothing to post.`,
+      commentResults: results,
+    };
+    return response;
+  }
 
-    // Create the review
-    const reviewData = await githubRequest<{ id: number }>(
-      accessToken,
-      `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          event,
-          body: reviewBody || undefined,
-          comments: reviewComments.length > 0 ? reviewComments : undefined,
-        }),
-      }
+  if (rejected.length > 0) {
+    console.log(
+      `[PostReview] ${rejected.length} inline comment(s) rejected by diff validation`
     );
-
-    reviewId = reviewData.id;
   }
 
-  // Fetch PR URL
-  const prData = await githubRequest<{ html_url: string }>(
+  // Pin the review to the reviewed commit, which matched the head the
+  // comments were validated on; a push since then doesn't move it
+  const reviewData = await githubRequest<{ id: number }>(
     accessToken,
-    `/repos/${owner}/${repo}/pulls/${prNumber}`
+    `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        commit_id: reviewedSha,
+        event,
+        body: reviewBody || undefined,
+        comments: inlineComments.length > 0 ? inlineComments : undefined,
+      }),
+    }
   );
 
-  // Build direct review link if we have a review ID
-  const reviewUrl = reviewId 
-    ? `${prData.html_url}#pullrequestreview-${reviewId}`
-    : undefined;
+  const reviewId = reviewData.id;
+  // Only now that GitHub took the review is a confirmation code used up
+  policyClearance.markSubmitted();
+
+  // Build direct review link
+  const reviewUrl = `${prUrl}#pullrequestreview-${reviewId}`;
+
+  const posted = comments.length - rejected.length;
+  const adjusted = results.filter(
+    (r) => r.status === "snapped" || r.status === "moved_to_body"
+  ).length;
+  let message = `Successfully posted ${posted} comment(s) to PR #${prNumber}`;
+  if (adjusted > 0) {
+    message += `; ${adjusted} inline comment(s) were not on a diff line and were adjusted`;
+  }
+  if (rejected.length > 0) {
+    message += `; ${rejected.length} inline comment(s) were rejected (post them again with a new idempotency_key once fixed)`;
+  }
 
   const response: PostReviewResponse = {
     success: true,
     reviewId,
-    prUrl: prData.html_url,
+    prUrl,
     reviewUrl,
-    commentsPosted: comments.length,
-    message: `Successfully posted ${comments.length} comment(s) to PR #${prNumber}`,
+    commentsPosted: posted,
+    message,
+    commentResults: results,
   };
 
   // Mark as processed for both keys
-  idempotencyService.markProcessed(idempKey, response);
-  idempotencyService.markProcessed(payloadKey, response);
-
-  // Resolve the lock so waiting requests get the result
-  resolveLock!(response);
+  const tags = [reviewTag(`${owner}/${repo}`, reviewId)];
+  idempotencyService.markProcessed(idempKey, response, tags);
+  idempotencyService.markProcessed(payloadKey, response, tags);
 
   return response;
 }
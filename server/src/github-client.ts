@@ -0,0 +1,460 @@
+/**
+ * GitHub Client
+ * Shared request layer for the GitHub REST and GraphQL APIs.
+ * Retries transient failures with jittered backoff, tracks the rate-limit
+ * budget of each token and slows requests down before the budget runs out.
+ */
+
+import crypto from 'crypto';
+
+const GITHUB_API_BASE = 'https://api.github.com';
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000; // Longest a request is held waiting for budget
+const LOW_BUDGET_RATIO = 0.1; // Start spacing requests out below 10% of the limit
+const MAX_QUEUE_SPACING_MS = 2000;
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+const HTTP_CACHE_MAX_ENTRIES = 500;
+const HTTP_CACHE_MAX_BODY_BYTES = 5 * 1024 * 1024;
+const HTTP_CACHE_MAX_TOTAL_BYTES = 64 * 1024 * 1024; // Across all entries; oldest are evicted first
+
+/**
+ * Non-2xx response from GitHub
+ */
+export class GitHubApiError extends Error {
+  constructor(
+    public readonly status: number,
+    statusText: string,
+    public readonly body: string
+  ) {
+    super(`GitHub API error: ${status} ${statusText} - ${body}`);
+    this.name = 'GitHubApiError';
+  }
+}
+
+/**
+ * GitHub refused the request because a rate limit was hit.
+ * `retryAt` is the earliest time the request is expected to succeed.
+ */
+export class GitHubRateLimitError extends Error {
+  constructor(
+    public readonly resource: string,
+    public readonly retryAt: Date,
+    public readonly secondary: boolean
+  ) {
+    super(
+      `GitHub ${secondary ? 'secondary ' : ''}rate limit reached for "${resource}". Retry after ${retryAt.toISOString()}.`
+    );
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+export interface GitHubRequestOptions extends RequestInit {
+  /** Retry on 5xx responses. Defaults to true for GET/HEAD only, so writes are never duplicated. */
+  retryable?: boolean;
+  /** Revalidate against the HTTP cache with If-None-Match. Defaults to true for GET. */
+  cache?: boolean;
+}
+
+// ============================================
+// Rate Limit Tracking
+// ============================================
+
+interface RateLimitBudget {
+  resource: string;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export interface RateLimitSnapshot {
+  trackedTokens: number;
+  queuedRequests: number;
+  resources: Array<{
+    resource: string;
+    limit: number;
+    remaining: number;
+    resetAt: string;
+  }>;
+}
+
+const budgets = new Map<string, RateLimitBudget>();
+const queues = new Map<string, Promise<void>>();
+let queuedRequests = 0;
+
+/**
+ * Budgets are tracked per token; hash it so raw tokens never become map keys
+ */
+function getTokenKey(accessToken: string): string {
+  return crypto.createHash('sha256').update(accessToken).digest('hex').slice(0, 16);
+}
+
+/**
+ * Best guess of the rate-limit bucket an endpoint draws from, before GitHub tells us
+ */
+function getResourceForEndpoint(endpoint: string): string {
+  if (endpoint.startsWith('/graphql')) return 'graphql';
+  if (endpoint.startsWith('/search/code')) return 'code_search';
+  if (endpoint.startsWith('/search')) return 'search';
+  return 'core';
+}
+
+function recordRateLimit(tokenKey: string, fallbackResource: string, headers: Headers): string {
+  const resource = headers.get('x-ratelimit-resource') || fallbackResource;
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+
+  if (limit !== null && remaining !== null && reset !== null) {
+    budgets.set(`${tokenKey}:${resource}`, {
+      resource,
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      resetAt: parseInt(reset, 10) * 1000,
+    });
+  }
+
+  return resource;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffMs(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Chain a delay onto the token's queue so low-budget requests go out one at a time
+ */
+function enqueue(budgetKey: string, delayMs: number): Promise<void> {
+  const previous = queues.get(budgetKey) ?? Promise.resolve();
+  const next = previous.then(() => sleep(delayMs));
+  queues.set(budgetKey, next);
+  queuedRequests++;
+
+  return next.finally(() => {
+    queuedRequests--;
+    if (queues.get(budgetKey) === next) {
+      queues.delete(budgetKey);
+    }
+  });
+}
+
+/**
+ * Hold a request until the token has budget for it.
+ * Throws instead of waiting when the budget won't reset soon enough.
+ */
+async function waitForBudget(tokenKey: string, resource: string): Promise<void> {
+  const budgetKey = `${tokenKey}:${resource}`;
+  const budget = budgets.get(budgetKey);
+  const now = Date.now();
+
+  if (!budget || now >= budget.resetAt) return;
+
+  if (budget.remaining <= 0) {
+    const waitMs = budget.resetAt - now;
+    if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new GitHubRateLimitError(resource, new Date(budget.resetAt), false);
+    }
+    console.log(`[GitHub] ${resource} budget exhausted, waiting ${Math.ceil(waitMs / 1000)}s for reset`);
+    queuedRequests++;
+    try {
+      await sleep(waitMs);
+    } finally {
+      queuedRequests--;
+    }
+    return;
+  }
+
+  if (budget.remaining < budget.limit * LOW_BUDGET_RATIO) {
+    const spacingMs = Math.min((budget.resetAt - now) / budget.remaining, MAX_QUEUE_SPACING_MS);
+    await enqueue(budgetKey, spacingMs);
+  }
+}
+
+/**
+ * Lowest remaining budget per resource across all tracked tokens (for /health)
+ */
+export function getRateLimitSnapshot(): RateLimitSnapshot {
+  const now = Date.now();
+  const lowest = new Map<string, RateLimitBudget>();
+  const tokens = new Set<string>();
+
+  for (const [key, budget] of budgets.entries()) {
+    if (now >= budget.resetAt) continue;
+    tokens.add(key.split(':')[0]);
+    const current = lowest.get(budget.resource);
+    if (!current || budget.remaining < current.remaining) {
+      lowest.set(budget.resource, budget);
+    }
+  }
+
+  return {
+    trackedTokens: tokens.size,
+    queuedRequests,
+    resources: Array.from(lowest.values()).map((b) => ({
+      resource: b.resource,
+      limit: b.limit,
+      remaining: b.remaining,
+      resetAt: new Date(b.resetAt).toISOString(),
+    })),
+  };
+}
+
+// ============================================
+// HTTP Cache (ETag / Last-Modified)
+// ============================================
+
+/**
+ * Conditional-request cache. GitHub doesn't count 304 responses against the
+ * rate limit, so revalidating a cached body is free.
+ */
+interface HttpCacheEntry {
+  etag?: string;
+  lastModified?: string;
+  link?: string;
+  body: string;
+}
+
+const httpCache = new Map<string, HttpCacheEntry>();
+let httpCacheBytes = 0;
+let httpCacheHits = 0;
+
+function deleteHttpCacheEntry(key: string): void {
+  const entry = httpCache.get(key);
+  if (entry) {
+    httpCacheBytes -= entry.body.length;
+    httpCache.delete(key);
+  }
+}
+
+function getHttpCacheEntry(key: string): HttpCacheEntry | undefined {
+  const entry = httpCache.get(key);
+  if (entry) {
+    // Re-insert to keep the map in least-recently-used order
+    httpCache.delete(key);
+    httpCache.set(key, entry);
+  }
+  return entry;
+}
+
+function setHttpCacheEntry(key: string, headers: Headers, body: string): void {
+  const etag = headers.get('etag') || undefined;
+  const lastModified = headers.get('last-modified') || undefined;
+  if ((!etag && !lastModified) || body.length > HTTP_CACHE_MAX_BODY_BYTES) return;
+
+  deleteHttpCacheEntry(key);
+  httpCache.set(key, { etag, lastModified, link: headers.get('link') || undefined, body });
+  httpCacheBytes += body.length;
+
+  // Bounded by size as well as count, so a run of large diffs can't pile up
+  while (httpCache.size > HTTP_CACHE_MAX_ENTRIES || httpCacheBytes > HTTP_CACHE_MAX_TOTAL_BYTES) {
+    deleteHttpCacheEntry(httpCache.keys().next().value as string);
+  }
+}
+
+export function getHttpCacheStats(): { entries: number; bytes: number; notModifiedHits: number } {
+  return { entries: httpCache.size, bytes: httpCacheBytes, notModifiedHits: httpCacheHits };
+}
+
+// ============================================
+// Requests
+// ============================================
+
+/**
+ * Parse a response body: JSON for API responses, raw text for diff/raw media types
+ */
+function parseBody<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return text as T;
+  }
+}
+
+/**
+ * Make an authenticated GitHub API request
+ */
+export async function githubRequest<T>(
+  accessToken: string,
+  endpoint: string,
+  options: GitHubRequestOptions = {}
+): Promise<T> {
+  const { data } = await executeRequest<T>(accessToken, endpoint, options);
+  return data;
+}
+
+/**
+ * Follow `Link: rel="next"` headers and concatenate the pages of a list endpoint.
+ * Stops once `maxItems` items have been collected.
+ */
+export async function githubPaginate<T>(
+  accessToken: string,
+  endpoint: string,
+  maxItems: number,
+  options: GitHubRequestOptions = {}
+): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | null = endpoint;
+
+  while (next && items.length < maxItems) {
+    const page: { data: T[]; link: string | null } = await executeRequest<T[]>(accessToken, next, options);
+    items.push(...page.data);
+    next = getNextPageEndpoint(page.link);
+  }
+
+  return items.slice(0, maxItems);
+}
+
+function getNextPageEndpoint(link: string | null): string | null {
+  if (!link) return null;
+  const match = link.match(/<([^>]+)>;\s*rel="next"/);
+  if (!match) return null;
+  return match[1].startsWith(GITHUB_API_BASE) ? match[1].slice(GITHUB_API_BASE.length) : match[1];
+}
+
+/**
+ * Send a request with retries, rate-limit handling and conditional caching.
+ * Returns the parsed body along with the Link header for pagination.
+ */
+async function executeRequest<T>(
+  accessToken: string,
+  endpoint: string,
+  options: GitHubRequestOptions
+): Promise<{ data: T; link: string | null }> {
+  const { retryable, cache, ...init } = options;
+  const method = (init.method || 'GET').toUpperCase();
+  const canRetry = retryable ?? (method === 'GET' || method === 'HEAD');
+  const tokenKey = getTokenKey(accessToken);
+  let resource = getResourceForEndpoint(endpoint);
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: 'application/vnd.github.v3+json',
+    'User-Agent': 'Git-GPT-App',
+    ...(init.headers as Record<string, string> | undefined),
+  };
+
+  // Cache per token (so users never see each other's responses) and media type
+  const useCache = (cache ?? true) && method === 'GET';
+  const cacheKey = `${tokenKey} ${headers.Accept} ${endpoint}`;
+  const cached = useCache ? getHttpCacheEntry(cacheKey) : undefined;
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  } else if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForBudget(tokenKey, resource);
+
+    let response: Response;
+    try {
+      response = await fetch(`${GITHUB_API_BASE}${endpoint}`, {
+        ...init,
+        headers,
+      });
+    } catch (error) {
+      // Network failure: retry safe requests only
+      if (canRetry && attempt < MAX_RETRIES) {
+        console.warn(`[GitHub] ${method} ${endpoint} failed (${error}), retrying`);
+        await sleep(getBackoffMs(attempt));
+        continue;
+      }
+      throw error;
+    }
+
+    resource = recordRateLimit(tokenKey, resource, response.headers);
+
+    if (response.status === 304 && cached) {
+      httpCacheHits++;
+      return { data: parseBody<T>(cached.body), link: cached.link ?? null };
+    }
+
+    if (response.ok) {
+      const link = response.headers.get('link');
+      if (response.status === 204) {
+        return { data: undefined as T, link };
+      }
+      const text = await response.text();
+      if (useCache) {
+        setHttpCacheEntry(cacheKey, response.headers, text);
+      }
+      return { data: parseBody<T>(text), link };
+    }
+
+    const body = await response.text();
+
+    if (response.status === 403 || response.status === 429) {
+      const retryAfter = response.headers.get('retry-after');
+      const remaining = response.headers.get('x-ratelimit-remaining');
+      const isSecondary = retryAfter !== null || /secondary rate limit|abuse/i.test(body);
+
+      if (remaining === '0' && !isSecondary) {
+        const reset = response.headers.get('x-ratelimit-reset');
+        const retryAt = reset ? new Date(parseInt(reset, 10) * 1000) : new Date(Date.now() + 60 * 1000);
+        throw new GitHubRateLimitError(resource, retryAt, false);
+      }
+
+      if (isSecondary) {
+        // A rejected request was never processed, so retrying is safe for any method
+        const waitMs = retryAfter !== null ? parseInt(retryAfter, 10) * 1000 : getBackoffMs(attempt + 1);
+        if (attempt < MAX_RETRIES && waitMs <= MAX_RATE_LIMIT_WAIT_MS) {
+          console.warn(`[GitHub] Secondary rate limit on ${endpoint}, retrying in ${Math.ceil(waitMs / 1000)}s`);
+          await sleep(waitMs);
+          continue;
+        }
+        throw new GitHubRateLimitError(resource, new Date(Date.now() + waitMs), true);
+      }
+    }
+
+    if (canRetry && RETRYABLE_STATUSES.has(response.status) && attempt < MAX_RETRIES) {
+      console.warn(`[GitHub] ${method} ${endpoint} returned ${response.status}, retrying`);
+      await sleep(getBackoffMs(attempt));
+      continue;
+    }
+
+    throw new GitHubApiError(response.status, response.statusText, body);
+  }
+}
+
+/**
+ * Make an authenticated GitHub GraphQL request
+ */
+export async function githubGraphQL<T>(
+  accessToken: string,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  const result = await githubRequest<{
+    data?: T;
+    errors?: Array<{ type?: string; message: string }>;
+  }>(accessToken, '/graphql', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+    // Queries are safe to repeat; mutations are not
+    retryable: !query.trimStart().startsWith('mutation'),
+  });
+
+  if (result.errors?.some((e) => e.type === 'RATE_LIMITED')) {
+    const budget = budgets.get(`${getTokenKey(accessToken)}:graphql`);
+    const retryAt = budget ? new Date(budget.resetAt) : new Date(Date.now() + 60 * 1000);
+    throw new GitHubRateLimitError('graphql', retryAt, false);
+  }
+
+  if (result.errors?.length || !result.data) {
+    const messages = (result.errors || []).map((e) => e.message).join('; ');
+    throw new Error(`GitHub GraphQL error: ${messages || 'empty response'}`);
+  }
+
+  return result.data;
+}
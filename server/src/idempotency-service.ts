@@ -7,6 +7,7 @@
 interface CacheEntry<T> {
   result: T;
   expiresAt: number;
+  tags: string[];
 }
 
 const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000; // 24 hours
@@ -52,20 +53,55 @@ class IdempotencyService {
   }
 
   /**
-   * Mark a request as processed and cache the result
+   * Mark a request as processed and cache the result.
+   * Tags name the GitHub objects the result refers to (e.g. a review), so the
+   * entry can be dropped when that object is edited or deleted.
    */
-  markProcessed<T>(key: string, result: T): void {
+  markProcessed<T>(key: string, result: T, tags: string[] = []): void {
     this.store.set(key, {
       result,
       expiresAt: Date.now() + IDEMPOTENCY_TTL,
+      tags,
     });
     console.log(`[Idempotency] Marked as processed: ${key}`);
   }
+
+  /**
+   * Forget every processed request tagged with any of the given tags, so the
+   * same content can be posted again
+   */
+  invalidateTags(tags: string[]): number {
+    let removed = 0;
+    for (const [key, entry] of this.store.entries()) {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.store.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      console.log(`[Idempotency] Invalidated ${removed} entries for ${tags.join(', ')}`);
+    }
+    return removed;
+  }
 }
 
 // Singleton instance
 export const idempotencyService = new IdempotencyService();
 
+/**
+ * Tag for results that created or refer to a review
+ */
+export function reviewTag(repoFullName: string, reviewId: number): string {
+  return `review:${repoFullName.toLowerCase()}:${reviewId}`;
+}
+
+/**
+ * Tag for results that created or refer to a single review comment
+ */
+export function commentTag(repoFullName: string, commentId: number): string {
+  return `comment:${repoFullName.toLowerCase()}:${commentId}`;
+}
+
 // Clean up expired entries periodically
 setInterval(() => {
   const now = Date.now();
@@ -0,0 +1,195 @@
+/**
+ * Incremental Diff
+ * Narrows a PR context to what changed since the user's last review, a
+ * commit or a date, so a re-review after fixups doesn't start from scratch.
+ */
+
+import { GitHubApiError, githubPaginate, githubRequest } from './github-client.js';
+import {
+  getAuthenticatedUserLogin,
+  requireGitHubSession,
+  toCommitSummary,
+  toFileChange,
+  type GitHubCommitData,
+  type GitHubFileData,
+} from './github-api.js';
+import type { IncrementalDiffSummary, PullRequestContext } from './types.js';
+
+const REVIEWS_MAX = 1000;
+const PR_COMMITS_MAX = 250;  // GitHub lists at most 250 commits per pull request
+const COMPARE_FILES_MAX = 300;  // and at most 300 files per comparison
+const NEW_COMMITS_SHOWN = 20;
+
+export const SINCE_FORMAT_MESSAGE =
+  'since must be "last_review", a commit SHA or an ISO date (e.g. "2024-05-01" or "2024-05-01T12:00:00Z").';
+
+type SinceTarget =
+  | { mode: 'last_review' }
+  | { mode: 'commit'; sha: string }
+  | { mode: 'date'; date: number };
+
+function parseSince(since: string): SinceTarget {
+  const value = since.trim();
+  if (value.toLowerCase() === 'last_review') {
+    return { mode: 'last_review' };
+  }
+  if (/^[0-9a-f]{7,40}$/i.test(value)) {
+    return { mode: 'commit', sha: value.toLowerCase() };
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))) {
+    return { mode: 'date', date: Date.parse(value) };
+  }
+  throw new Error(SINCE_FORMAT_MESSAGE);
+}
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
+
+/**
+ * The commit the user's most recent submitted review was made against
+ */
+async function findLastReview(
+  accessToken: string,
+  pullPath: string,
+  login: string
+): Promise<{ commitId: string; submittedAt: string } | null> {
+  const reviews = await githubPaginate<{
+    user: { login: string } | null;
+    state: string;
+    commit_id: string | null;
+    submitted_at?: string;
+  }>(accessToken, `${pullPath}/reviews?per_page=100`, REVIEWS_MAX);
+
+  // Listed oldest first
+  const own = reviews.filter(
+    (review) =>
+      review.state !== 'PENDING' &&
+      review.commit_id &&
+      review.submitted_at &&
+      review.user?.login.toLowerCase() === login.toLowerCase()
+  );
+  const last = own[own.length - 1];
+  return last ? { commitId: last.commit_id!, submittedAt: last.submitted_at! } : null;
+}
+
+/**
+ * Return a copy of the context whose files are only the changes between the
+ * requested point and the PR head. Falls back to the full PR diff (with
+ * since.fallbackReason set) when that point can't be diffed against, e.g.
+ * after a force-push.
+ */
+export async function narrowToChangesSince(
+  userId: string,
+  context: PullRequestContext,
+  since: string
+): Promise<PullRequestContext> {
+  const target = parseSince(since);
+  const { accessToken, username } = requireGitHubSession(userId);
+  const repoPath = `/repos/${context.pr.repository.fullName}`;
+  const pullPath = `${repoPath}/pulls/${context.pr.number}`;
+  const headSha = context.pr.headSha;
+
+  const summary: IncrementalDiffSummary = {
+    mode: target.mode,
+    requested: since,
+    fromSha: null,
+    newCommits: [],
+    totalNewCommits: 0,
+    excludedFiles: 0,
+  };
+  const fullDiff = (reason: string, commits: GitHubCommitData[] = []): PullRequestContext => {
+    console.log(`[GitHub] Showing full diff for ${context.pr.repository.fullName}#${context.pr.number}: ${reason}`);
+    return {
+      ...context,
+      since: {
+        ...summary,
+        newCommits: commits.slice(-NEW_COMMITS_SHOWN).map(toCommitSummary),
+        totalNewCommits: commits.length,
+        fallbackReason: reason,
+      },
+    };
+  };
+
+  let fromSha: string;
+  if (target.mode === 'last_review') {
+    const login = username || (await getAuthenticatedUserLogin(accessToken));
+    const review = await findLastReview(accessToken, pullPath, login);
+    if (!review) {
+      return fullDiff("You haven't submitted a review on this PR yet, so the full PR diff is shown.");
+    }
+    fromSha = review.commitId;
+    summary.reviewedAt = review.submittedAt;
+  } else if (target.mode === 'commit') {
+    fromSha = target.sha;
+  } else {
+    const commits = await githubPaginate<GitHubCommitData>(
+      accessToken,
+      `${pullPath}/commits?per_page=100`,
+      PR_COMMITS_MAX
+    );
+    // Committer dates change on rebase, so they track when a commit landed on the branch
+    const before = commits.filter((commit) => {
+      const date = commit.commit.committer?.date || commit.commit.author?.date;
+      return date !== undefined && Date.parse(date) <= target.date;
+    });
+    if (before.length === 0) {
+      return fullDiff(`Every commit on the PR is newer than ${since}, so the full PR diff is shown.`, commits);
+    }
+    fromSha = before[before.length - 1].sha;
+  }
+  summary.fromSha = fromSha;
+
+  let comparison: {
+    status: 'ahead' | 'behind' | 'diverged' | 'identical';
+    total_commits: number;
+    commits: GitHubCommitData[];
+    files?: GitHubFileData[];
+  };
+  try {
+    comparison = await githubRequest(accessToken, `${repoPath}/compare/${fromSha}...${headSha}`);
+  } catch (error) {
+    if (error instanceof GitHubApiError && (error.status === 404 || error.status === 422)) {
+      summary.fromSha = null;
+      return fullDiff(
+        `Commit ${shortSha(fromSha)} is no longer in the repository (the branch was probably force-pushed), so the full PR diff is shown.`
+      );
+    }
+    throw error;
+  }
+
+  if (comparison.status === 'diverged' || comparison.status === 'behind') {
+    // A diff across rewritten history would mix in changes the author didn't make
+    summary.fromSha = null;
+    return fullDiff(
+      `The branch was force-pushed or rebased since ${shortSha(fromSha)}, so there is no clean diff from it. The full PR diff is shown.`,
+      comparison.commits
+    );
+  }
+
+  // Drop files the PR doesn't change, e.g. from merging the base branch in
+  const compareFiles = comparison.files || [];
+  const prFiles = new Set(context.files.map((file) => file.filename));
+  const files = compareFiles
+    .filter((file) => context.filesTruncated || prFiles.has(file.filename))
+    .map(toFileChange);
+
+  console.log(
+    `[GitHub] ${files.length} file(s) changed in ${context.pr.repository.fullName}#${context.pr.number} since ${shortSha(fromSha)}`
+  );
+
+  return {
+    ...context,
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    changedFiles: files.length,
+    filesTruncated: compareFiles.length >= COMPARE_FILES_MAX,
+    since: {
+      ...summary,
+      newCommits: comparison.commits.slice(-NEW_COMMITS_SHOWN).map(toCommitSummary),
+      totalNewCommits: comparison.total_commits,
+      excludedFiles: compareFiles.length - files.length,
+    },
+  };
+}
@@ -32,6 +32,7 @@ import {
   getGitHubUser,
 } from './github-auth.js';
 import { getPullRequestContext } from './github-api.js';
+import { getRateLimitSnapshot, getHttpCacheStats, GitHubRateLimitError } from './github-client.js';
 import { handleMCPRequest } from './mcp-server.js';
 import { deleteGitHubTokens } from './token-store.js';
 import {
@@ -81,6 +82,8 @@ app.get('/health', (_req: Request, res: Response) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
+    githubRateLimit: getRateLimitSnapshot(),
+    githubHttpCache: getHttpCacheStats(),
   });
 });
 
@@ -275,6 +278,10 @@ app.get('/api/pr-context/:owner/:repo/:number', async (req: Request, res: Respon
     res.json({ success: true, data: prContext });
   } catch (err: any) {
     console.error('Error fetching PR context:', err);
+    if (err instanceof GitHubRateLimitError) {
+      res.setHeader('Retry-After', Math.max(0, Math.ceil((err.retryAt.getTime() - Date.now()) / 1000)));
+      return res.status(429).json({ success: false, error: err.message, rateLimited: true, retryAt: err.retryAt.toISOString() });
+    }
     res.status(500).json({ success: false, error: err.message });
   }
 });
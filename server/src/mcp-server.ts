@@ -14,7 +14,37 @@ import {
   getGitHubUser,
 } from './github-auth.js';
 import { listPullRequests, getPullRequestContext, postReviewComments } from './github-api.js';
-import type { ReviewComment } from './types.js';
+import { GitHubRateLimitError } from './github-client.js';
+import { ReviewPolicyError } from './review-policy.js';
+import { getFileContent } from './file-content.js';
+import { cursorSince, resolveMaxChars, shapePullRequestContext } from './pr-context-shaper.js';
+import { narrowToChangesSince, SINCE_FORMAT_MESSAGE } from './incremental-diff.js';
+import { fitDiscussion, getPullRequestDiscussion, summarizeDiscussion } from './pr-discussion.js';
+import { getCommitDiff, listPullRequestCommits } from './pr-commits.js';
+import { getPullRequestChecks, summarizeChecks } from './pr-checks.js';
+import { replyToReviewThread, setReviewThreadResolved } from './review-threads.js';
+import { deleteReviewComment, dismissReview, editReviewComment } from './review-management.js';
+import { mergePullRequest, setDraftState, updatePullRequestBranch } from './pr-actions.js';
+import { removeReviewers, requestReviewers } from './pr-reviewers.js';
+import { addLabels, removeLabels, setMilestone, updateAssignees } from './pr-triage.js';
+import {
+  addPendingReviewComments,
+  discardPendingReview,
+  getPendingReview,
+  removePendingReviewComment,
+  startPendingReview,
+  submitPendingReview,
+} from './pending-review.js';
+import type {
+  BranchUpdateMethod,
+  InvalidCommentStrategy,
+  MergeMethod,
+  PendingReview,
+  PullRequestSearchState,
+  ReviewComment,
+  StaleReviewInfo,
+  TriageRejection,
+} from './types.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -124,6 +154,47 @@ interface AppsTool {
   };
 }
 
+/**
+ * JSON schema for one review comment, shared by the tools that take comments
+ */
+const REVIEW_COMMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    body: {
+      type: 'string',
+      description: 'The comment text.',
+    },
+    path: {
+      type: 'string',
+      description: 'REQUIRED for inline comments: File path (e.g., "src/utils.ts"). Include this for all code-specific feedback. Omit ONLY for general summary comments.',
+    },
+    line: {
+      type: 'number',
+      description: 'REQUIRED for inline comments: Line number in the file. Include this for all code-specific feedback. Omit ONLY for general summary comments.',
+    },
+    side: {
+      type: 'string',
+      enum: ['LEFT', 'RIGHT'],
+      description: 'Side of diff: RIGHT (new code, default) or LEFT (old code). Only relevant for inline comments.',
+    },
+    start_line: {
+      type: 'number',
+      description: 'Optional: First line of a multi-line comment; \'line\' is then the last line. The range must be within one diff hunk.',
+    },
+    start_side: {
+      type: 'string',
+      enum: ['LEFT', 'RIGHT'],
+      description: 'Optional: Side of start_line. Defaults to \'side\'.',
+    },
+    suggestion: {
+      type: 'string',
+      description: 'Optional: Replacement code for the commented line(s) (line, or start_line..line), without markdown fences. Posted as a GitHub suggestion the author can commit with one click. Requires side RIGHT.',
+    },
+  },
+  required: ['body'],
+  additionalProperties: false,
+};
+
 /**
  * Define tools with OpenAI Apps SDK _meta format
  * Uses ui:// protocol to reference widget resources
@@ -159,7 +230,9 @@ function getTools(): AppsTool[] {
     {
       name: 'list_pull_requests',
       title: 'List Pull Requests',
-      description: `List open pull requests from GitHub. By default, returns 10 most recent PRs, but you can specify a different limit.
+      description: `List pull requests from GitHub. By default, returns the 10 most recently updated open PRs, but you can specify a different limit or state.
+
+**Pagination:** Results come one page at a time. When more are available the response includes a cursor - pass it back as 'cursor' (with no other arguments) to get the next page.
 
 **Default behavior (no username provided):**
 1. First shows PRs where YOU are the author
@@ -173,9 +246,13 @@ function getTools(): AppsTool[] {
 - To EXCLUDE a specific repo: Use "-owner/repo" with minus prefix (e.g., repository: "-facebook/react")
 - If user says "outside of repo" or "other than repo", use the NEGATIVE prefix "-"
 
+**State filtering:**
+- state: "open" (default), "closed" (closed without merging), "merged", or "all"
+- For "what did I merge last sprint", use filter_type "authored" with state "merged" and merged_from/merged_to
+- A merged_from/merged_to range on its own implies state "merged"
+
 **IMPORTANT - This tool ONLY lists PRs. It CANNOT:**
 - Show PR details, files changed, commits, or diffs
-- Filter by merged/closed state (only shows open PRs)
 - Summarize what a PR does
 - Show code changes
 
@@ -191,7 +268,20 @@ The tool requires GitHub authentication - it will prompt to connect if needed.`,
           },
           limit: {
             type: 'number',
-            description: 'Optional: Maximum number of PRs to return. Defaults to 10 if not specified. Maximum allowed is 10.',
+            description: 'Optional: Maximum number of PRs to return per page. Defaults to 10 if not specified. Maximum allowed is 10 - use the cursor to get more.',
+          },
+          state: {
+            type: 'string',
+            enum: ['open', 'closed', 'merged', 'all'],
+            description: 'Optional: PR state. "open" (default), "closed" = closed without merging, "merged" = merged PRs, "all" = any state. Defaults to "merged" when merged_from/merged_to is given.',
+          },
+          merged_from: {
+            type: 'string',
+            description: 'Optional: Only PRs merged on or after this date (ISO format: YYYY-MM-DD). Requires state "merged" or "all" (or no state).',
+          },
+          merged_to: {
+            type: 'string',
+            description: 'Optional: Only PRs merged on or before this date (ISO format: YYYY-MM-DD). Requires state "merged" or "all" (or no state).',
           },
           date_from: {
             type: 'string',
@@ -210,6 +300,10 @@ The tool requires GitHub authentication - it will prompt to connect if needed.`,
             enum: ['authored', 'reviewing', 'involved'],
             description: 'Optional: Filter by PR type. "authored" = PRs you created, "reviewing" = PRs where you\'re a reviewer, "involved" = PRs where you\'re mentioned/commented. If not specified, uses priority cascade (authored → reviewing → involved).',
           },
+          cursor: {
+            type: 'string',
+            description: 'Optional: Continuation cursor from a previous list_pull_requests response. Returns the next page of that same search; other arguments are ignored.',
+          },
         },
         required: [],
         additionalProperties: false,
@@ -249,6 +343,27 @@ The tool requires GitHub authentication - it will prompt to connect if needed.`,
 - List of changed files with additions/deletions
 - Unified diffs for each file (for inline comment placement)
 - Labels and requested reviewers
+- With include_discussion: existing review threads, comments and reviewer states (see get_pr_discussion), within a quarter of max_chars; 'discussion.clipped' counts what was left out
+- With include_checks: CI results for the head commit, with annotations for failures (see get_pr_checks)
+
+**Large PRs:**
+- Files come in review priority order: source, then tests, then lockfiles/generated files ('category')
+- Diffs are limited to about max_chars characters per call; files whose diff is on another page have 'patchUnavailableReason: "deferred"'
+- When 'page.nextCursor' is present, call again with the same pr_name and file_cursor set to it to get the next files' diffs
+- A single diff larger than the budget is cut at a line boundary and marked 'patchClipped'; use get_file_content for the rest
+- Use include_paths/exclude_paths globs to focus on the relevant part of a monorepo and skip lockfiles or snapshots. A pattern without "/" matches a file or directory name at any depth.
+
+**Inline comment placement:**
+- Call with diff_format "hunks" before posting inline comments: each line carries its absolute line numbers, so there is nothing to count
+- Comment on an added or context line with side "RIGHT" and its newLine; on a deleted line with side "LEFT" and its oldLine
+- Only lines marked commentable accept inline comments (every hunk line in the PR diff; with since, only RIGHT lines the PR diff also shows)
+
+**Re-reviews:**
+- Set since to "last_review" (your latest submitted review), a commit SHA or an ISO date to get only what changed since then, plus the new commits ('since')
+- If that point can't be diffed against (e.g. the branch was force-pushed), the full PR diff is returned and 'since.fallbackReason' says why; tell the user
+- In this mode LEFT line numbers refer to the earlier commit, so only place inline comments on RIGHT lines
+
+Files whose diff GitHub omitted carry 'patchUnavailableReason' ("too_large", "binary" or "empty"; "binary" also covers mode-only changes). Say so instead of treating them as empty, and don't place inline comments on them.
 
 The tool requires GitHub authentication - it will prompt to connect if needed.`,
       inputSchema: {
@@ -258,6 +373,41 @@ The tool requires GitHub authentication - it will prompt to connect if needed.`,
             type: 'string',
             description: 'PR identifier. Use "owner/repo#123" format for specific PRs, or "pr-123", "#123", or just "123" to search user\'s recent PRs.',
           },
+          max_chars: {
+            type: 'number',
+            description: 'Optional: Character budget for diffs (and the discussion, with include_discussion) in this response (default 60000, about 15k tokens). Lower it to leave room for other context.',
+          },
+          file_cursor: {
+            type: 'string',
+            description: 'Optional: page.nextCursor from a previous get_pr_context call on the same PR, to get the next page of diffs. The cursor keeps that call\'s path filters and since value.',
+          },
+          include_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: Only include files matching these globs (e.g., ["packages/api/**", "!**/*.lock"]). Patterns starting with "!" exclude.',
+          },
+          exclude_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: Leave out files matching these globs (e.g., ["**/__snapshots__/**", "*.lock"]).',
+          },
+          include_checks: {
+            type: 'boolean',
+            description: 'Optional: Also return CI check runs and statuses for the head commit, with annotations for failed runs.',
+          },
+          include_discussion: {
+            type: 'boolean',
+            description: 'Optional: Also return existing review threads (with resolved/outdated flags), conversation comments and reviewer states, so you don\'t repeat points already raised.',
+          },
+          diff_format: {
+            type: 'string',
+            enum: ['unified', 'hunks'],
+            description: 'Optional: "unified" (default) returns raw patch text. "hunks" returns parsed hunks where every line has oldLine, newLine, side and commentable - use these for inline comment placement.',
+          },
+          since: {
+            type: 'string',
+            description: 'Optional: Only return changes made since this point: "last_review" (your latest submitted review on the PR), a commit SHA, or an ISO date (e.g. "2024-05-01").',
+          },
         },
         required: ['pr_name'],
         additionalProperties: false,
@@ -278,6 +428,248 @@ The tool requires GitHub authentication - it will prompt to connect if needed.`,
         'openai/widgetAccessible': false,
       },
     },
+    {
+      name: 'get_file_content',
+      title: 'Get File Content',
+      description: `Get the full content of a file (or a line range of it) as it is in a pull request, at the PR's head commit (new code) or base commit (old code).
+
+**Use this when:**
+- You need surrounding code that isn't in the diff hunks (callers, type definitions, the rest of a function)
+- A file's diff was omitted as too large and you need to read it directly
+
+**Line ranges:**
+- Without start_line/end_line, returns the first 400 lines; 'truncated' tells you if there is more
+- Request further ranges with start_line/end_line (up to 2000 lines per call)
+- Line numbers match the new file at "head" and the old file at "base", the same numbers inline comments use
+
+Binary files and files over 10 MB return metadata only.
+
+The tool requires GitHub authentication - it will prompt to connect if needed.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier. Use "owner/repo#123" format for specific PRs, or "pr-123", "#123", or just "123" to search user\'s recent PRs.',
+          },
+          path: {
+            type: 'string',
+            description: 'File path within the repository (e.g., "src/utils.ts").',
+          },
+          ref: {
+            type: 'string',
+            enum: ['head', 'base'],
+            description: 'Which side of the PR to read: "head" (the PR\'s changes, default) or "base" (the target branch before the PR).',
+          },
+          start_line: {
+            type: 'number',
+            description: 'Optional: First line to return (1-based, inclusive).',
+          },
+          end_line: {
+            type: 'number',
+            description: 'Optional: Last line to return (1-based, inclusive).',
+          },
+        },
+        required: ['pr_name', 'path'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Get File Content',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['read:user', 'read:org'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'get_pr_discussion',
+      title: 'Get PR Discussion',
+      description: `Get the discussion that already happened on a pull request: review threads (with resolved and outdated flags, anchored to path and line), conversation comments, and each reviewer's latest review state.
+
+**Use this when:**
+- Before reviewing a PR that already has reviews, to avoid raising points that were already made or resolved
+- User asks what reviewers said, what is still open, or who approved
+
+Resolved threads are settled - don't raise them again unless the code still has the problem. Outdated threads refer to code that has since changed.
+
+The tool requires GitHub authentication - it will prompt to connect if needed.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier. Use "owner/repo#123" format for specific PRs, or "pr-123", "#123", or just "123" to search user\'s recent PRs.',
+          },
+          include_resolved: {
+            type: 'boolean',
+            description: 'Optional: Include resolved threads (default true).',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Get PR Discussion',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['read:user', 'read:org'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'get_pr_checks',
+      title: 'Get PR Checks',
+      description: `Get CI results for a pull request's head commit: every check run and commit status with its conclusion, duration and details link.
+
+**Use this when:**
+- User asks "is CI green?", why a build failed, or whether a PR is ready to merge
+- Before approving, to see whether checks pass
+
+Failed check runs include annotations (file, line and message, e.g. lint or test errors). Annotations on changed lines can be raised as inline review comments. get_pr_context can include the same data with include_checks.
+
+The tool requires GitHub authentication - it will prompt to connect if needed.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier. Use "owner/repo#123" format for specific PRs, or "pr-123", "#123", or just "123" to search user\'s recent PRs.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Get PR Checks',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['read:user', 'read:org'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'list_pr_commits',
+      title: 'List PR Commits',
+      description: `List a pull request's commits, oldest first, with SHA, full message, author, date and signature verification status.
+
+**Use this when:**
+- User asks for a commit-by-commit review, or what each commit does
+- Commit messages may explain intent better than the PR description
+
+Follow up with get_commit_diff to review a single commit.
+
+The tool requires GitHub authentication - it will prompt to connect if needed.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier. Use "owner/repo#123" format for specific PRs, or "pr-123", "#123", or just "123" to search user\'s recent PRs.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'List PR Commits',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['read:user', 'read:org'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'get_commit_diff',
+      title: 'Get Commit Diff',
+      description: `Get the diff of a single commit in a pull request, with its message.
+
+**Use this when:**
+- Reviewing a PR commit by commit (get SHAs from list_pr_commits)
+
+Diffs are filtered, ordered and paged like get_pr_context (max_chars, file_cursor, include_paths, exclude_paths, diff_format). Line numbers are those of the commit, which may differ from the PR head: place inline comments using get_pr_context, not this diff.
+
+The tool requires GitHub authentication - it will prompt to connect if needed.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier. Use "owner/repo#123" format for specific PRs, or "pr-123", "#123", or just "123" to search user\'s recent PRs.',
+          },
+          sha: {
+            type: 'string',
+            description: 'SHA of a commit in the PR (full or abbreviated).',
+          },
+          max_chars: {
+            type: 'number',
+            description: 'Optional: Character budget for diffs in this response (default 60000).',
+          },
+          file_cursor: {
+            type: 'string',
+            description: 'Optional: page.nextCursor from a previous get_commit_diff call on the same commit, to get the next page of diffs.',
+          },
+          include_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: Only include files matching these globs.',
+          },
+          exclude_paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: Leave out files matching these globs.',
+          },
+          diff_format: {
+            type: 'string',
+            enum: ['unified', 'hunks'],
+            description: 'Optional: "unified" (default) for raw patch text, "hunks" for parsed lines with line numbers.',
+          },
+        },
+        required: ['pr_name', 'sha'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Get Commit Diff',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['read:user', 'read:org'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
     {
       name: 'post_review_comments',
       title: 'Post Review Comments',
@@ -295,6 +687,11 @@ By default, attach ALL feedback as inline comments to specific lines of code. Th
 - Use for: bugs, suggestions, questions, improvements related to specific code
 - Example: { body: "Consider using const instead of let", path: "src/auth.ts", line: 45 }
 
+**Multi-line comments and suggestions:**
+- Add 'start_line' to comment on a range (start_line..line); both ends must be in the same diff hunk
+- Add 'suggestion' with the exact replacement code for those lines to propose a fix the author can commit with one click. Keep the original indentation; an empty string deletes the lines
+- Example: { body: "Use optional chaining", path: "src/auth.ts", start_line: 45, line: 47, suggestion: "const name = user?.profile?.name;" }
+
 **General comments (ONLY use when appropriate):**
 - Omit 'path' and 'line' for top-level review comments
 - Use ONLY for: overall summary, high-level architecture feedback, or when user explicitly asks for a general comment
@@ -302,11 +699,24 @@ By default, attach ALL feedback as inline comments to specific lines of code. Th
 
 **Best practice:** Provide inline comments for specific code feedback, then optionally add ONE general comment as a summary.
 
+**Line validation:**
+Inline comments are checked against the PR's diff before posting (use get_pr_context with diff_format "hunks" to get exact line numbers). A comment whose path/line isn't in the diff is handled per 'on_invalid_comment':
+- snap (default): moved to the nearest commentable line if within 3 lines, otherwise into the review body with a link to the line
+- body: moved into the review body with a link to the line
+- reject: not posted; its error lists the commentable line ranges
+Valid comments are always posted. 'commentResults' reports what happened to each comment.
+
+**Stale reviews:**
+'head_sha' is required: the PR's head commit from get_pr_context. Comments are pinned to that commit, and if the author has pushed since, nothing is posted: the result has 'staleReview' with the new commits. Fetch get_pr_context again, check the comments still apply to the new diff, and post with the new head_sha.
+
 **Review Events:**
 - COMMENT (default): Neutral feedback
 - APPROVE: Only if user explicitly says "approve" or "LGTM"
 - REQUEST_CHANGES: Only if user explicitly requests changes
 
+**Review policy:**
+APPROVE and REQUEST_CHANGES are checked by a server-side policy. Approving or requesting changes on your own PR is always refused, and the server may also require passing CI, a minimum number of inline comments, or the user's explicit confirmation. A refusal has 'policyRefused: true' and 'violations' explaining each rule; tell the user why, and don't retry with the same input. If the only violation is 'confirmation', the user is shown a confirmation code that you can't see. Tell them what will be submitted and ask them to reply with the code if they agree; then call again with exactly the same review and 'confirmation_code' set to what they typed. Never make up a code or confirm on their behalf.
+
 **Returns:**
 - A direct link to the posted review that users can click to view their comments on GitHub
 
@@ -321,30 +731,7 @@ The tool requires GitHub authentication.`,
           comments: {
             type: 'array',
             description: 'Array of review comments. By default, ALL comments should be inline (include path + line). Only omit path/line for overall summary comments.',
-            items: {
-              type: 'object',
-              properties: {
-                body: {
-                  type: 'string',
-                  description: 'The comment text.',
-                },
-                path: {
-                  type: 'string',
-                  description: 'REQUIRED for inline comments: File path (e.g., "src/utils.ts"). Include this for all code-specific feedback. Omit ONLY for general summary comments.',
-                },
-                line: {
-                  type: 'number',
-                  description: 'REQUIRED for inline comments: Line number in the file. Include this for all code-specific feedback. Omit ONLY for general summary comments.',
-                },
-                side: {
-                  type: 'string',
-                  enum: ['LEFT', 'RIGHT'],
-                  description: 'Side of diff: RIGHT (new code, default) or LEFT (old code). Only relevant for inline comments.',
-                },
-              },
-              required: ['body'],
-              additionalProperties: false,
-            },
+            items: REVIEW_COMMENT_SCHEMA,
           },
           event: {
             type: 'string',
@@ -355,8 +742,21 @@ The tool requires GitHub authentication.`,
             type: 'string',
             description: 'Unique key to prevent duplicate posts on retry. Generate a unique ID for each review submission.',
           },
+          on_invalid_comment: {
+            type: 'string',
+            enum: ['snap', 'body', 'reject'],
+            description: 'What to do with inline comments that aren\'t on a diff line: "snap" (default) to the nearest line within 3 lines or else the review body, "body" to always move them into the review body, "reject" to leave them out and report why.',
+          },
+          head_sha: {
+            type: 'string',
+            description: 'The full head commit SHA the review was written against (pr.headSha from get_pr_context). Nothing is posted if the PR has moved past it.',
+          },
+          confirmation_code: {
+            type: 'string',
+            description: 'Only after the user confirmed: the confirmation code exactly as the user typed it. Never guess or reuse one.',
+          },
         },
-        required: ['pr_name', 'idempotency_key'],
+        required: ['pr_name', 'head_sha', 'idempotency_key'],
         additionalProperties: false,
       },
       annotations: {
@@ -371,330 +771,2630 @@ The tool requires GitHub authentication.`,
       ],
       _meta: {
         'openai/visibility': 'public',
+        // Renders the result, and the review policy's confirmation code, for the user only
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
         'openai/widgetAccessible': false,
       },
     },
-  ];
-}
-
-/**
- * Apps SDK Tool Response with structuredContent
- */
-interface AppsToolResponse {
-  content: { type: 'text'; text: string }[];
-  structuredContent: Record<string, unknown>;
-  _meta?: Record<string, unknown>;
-  isError?: boolean;
-}
+    {
+      name: 'start_pending_review',
+      title: 'Start Pending Review',
+      description: `Start a pending (draft) review on a pull request, or return the one already in progress. A pending review collects comments over several turns and is only visible to the user until submitted.
 
-// ============================================
-// GitHub Tool Handlers
-// ============================================
+**Use this when:**
+- The user wants to review a PR step by step ("let's go through this PR file by file")
+- Feedback will be gathered over several messages and should end up as ONE review
 
-/**
- * Handle check_github_auth_status tool
- */
-function handleCheckGitHubAuthStatus(userId: string): AppsToolResponse {
-  const authenticated = isGitHubAuthenticated(userId);
+Then add comments with add_pending_review_comments and finish with submit_pending_review (or discard_pending_review).
 
-  if (authenticated) {
-    const user = getGitHubUser(userId);
-    return {
-      content: [{ type: 'text', text: `User is connected to GitHub as @${user?.login}.` }],
-      structuredContent: {
-        authenticated: true,
-        authType: 'github',
-        user,
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Start Pending Review',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'add_pending_review_comments',
+      title: 'Add Pending Review Comments',
+      description: `Add draft comments to the user's pending review on a pull request (starting one if needed). Nothing is visible to others until submit_pending_review.
+
+Comments take the same shape as in post_review_comments (inline with path + line, ranges with start_line, suggestions) and are checked against the diff the same way, per 'on_invalid_comment'. General comments (no path/line) are added to the review body. A comment identical to an existing draft is skipped.
+
+If the author has pushed since the pending review was started, nothing is added: the result has 'staleReview' with the new commits. Discard the pending review and start again on the new head, or submit it as is.
+
+Returns the pending review with every draft comment and its id (needed for remove_pending_review_comment).
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          comments: {
+            type: 'array',
+            description: 'Draft comments to add. Prefer inline comments (path + line).',
+            items: REVIEW_COMMENT_SCHEMA,
+          },
+          on_invalid_comment: {
+            type: 'string',
+            enum: ['snap', 'body', 'reject'],
+            description: 'What to do with inline comments that aren\'t on a diff line: "snap" (default) to the nearest line within 3 lines or else the review body, "body" to move them into the review body, "reject" to leave them out and report why.',
+          },
+        },
+        required: ['pr_name', 'comments'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Add Pending Review Comments',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'remove_pending_review_comment',
+      title: 'Remove Pending Review Comment',
+      description: `Delete one draft comment from the user's pending review on a pull request. Get comment ids from list_pending_review or add_pending_review_comments.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          comment_id: {
+            type: 'number',
+            description: 'Id of the draft comment to remove.',
+          },
+        },
+        required: ['pr_name', 'comment_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Remove Pending Review Comment',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'list_pending_review',
+      title: 'List Pending Review',
+      description: `Show the user's pending review on a pull request: the review body collected so far and every draft comment with its id, file and line.
+
+**Use this when:**
+- The user asks what they have drafted so far
+- Before submitting, to recap the review
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'List Pending Review',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'submit_pending_review',
+      title: 'Submit Pending Review',
+      description: `Submit the user's pending review on a pull request, publishing all draft comments as ONE review.
+
+**Review Events:**
+- COMMENT (default): Neutral feedback
+- APPROVE: Only if user explicitly says "approve" or "LGTM"
+- REQUEST_CHANGES: Only if user explicitly requests changes
+
+An optional body is appended to the review body collected so far.
+
+**Review policy:**
+APPROVE and REQUEST_CHANGES are checked by a server-side policy. Approving or requesting changes on your own PR is always refused, and the server may also require passing CI, a minimum number of inline comments, or the user's explicit confirmation. A refusal has 'policyRefused: true' and 'violations' explaining each rule; tell the user why, and don't retry with the same input. If the only violation is 'confirmation', the user is shown a confirmation code that you can't see. Tell them what will be submitted and ask them to reply with the code if they agree; then call again with exactly the same review and 'confirmation_code' set to what they typed. Never make up a code or confirm on their behalf.
+
+**Returns:**
+- A direct link to the submitted review
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          event: {
+            type: 'string',
+            enum: ['COMMENT', 'APPROVE', 'REQUEST_CHANGES'],
+            description: 'Review event type. Default is COMMENT. Only use APPROVE or REQUEST_CHANGES if user explicitly requests.',
+          },
+          body: {
+            type: 'string',
+            description: 'Optional: Summary to add to the review body.',
+          },
+          confirmation_code: {
+            type: 'string',
+            description: 'Only after the user confirmed: the confirmation code exactly as the user typed it. Never guess or reuse one.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
       },
+      annotations: {
+        title: 'Submit Pending Review',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
       _meta: {
+        'openai/visibility': 'public',
+        // Renders the result, and the review policy's confirmation code, for the user only
         'openai/outputTemplate': 'ui://widget/github-widget.html',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'discard_pending_review',
+      title: 'Discard Pending Review',
+      description: `Delete the user's pending review on a pull request, including all of its draft comments. Only use when the user explicitly asks to discard or start over.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Discard Pending Review',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'reply_to_review_thread',
+      title: 'Reply to Review Thread',
+      description: `Reply in an existing review comment thread on a pull request, and optionally resolve the thread.
+
+**Use this when:**
+- The user asks to answer reviewer feedback ("reply to the open threads on my PR")
+- Explaining how a comment was addressed, then resolving it (set resolve: true only when the code change actually fixes the point)
+
+Get thread ids from get_pr_discussion. Call once per thread; retries with the same idempotency_key (or the same thread and text) don't post twice.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          thread_id: {
+            type: 'string',
+            description: 'Review thread id (the "id" of a thread from get_pr_discussion, e.g. "PRRT_...").',
+          },
+          body: {
+            type: 'string',
+            description: 'The reply text.',
+          },
+          resolve: {
+            type: 'boolean',
+            description: 'Optional: Resolve the thread after replying (default false).',
+          },
+          idempotency_key: {
+            type: 'string',
+            description: 'Unique key to prevent duplicate replies on retry. Generate a unique ID for each reply.',
+          },
+        },
+        required: ['pr_name', 'thread_id', 'body', 'idempotency_key'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Reply to Review Thread',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'resolve_review_thread',
+      title: 'Resolve Review Thread',
+      description: `Mark a review thread on a pull request as resolved.
+
+Only resolve threads whose point has actually been addressed (or when the user explicitly asks). Get thread ids from get_pr_discussion.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          thread_id: {
+            type: 'string',
+            description: 'Review thread id (the "id" of a thread from get_pr_discussion, e.g. "PRRT_...").',
+          },
+        },
+        required: ['pr_name', 'thread_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Resolve Review Thread',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
       },
+    },
+    {
+      name: 'unresolve_review_thread',
+      title: 'Unresolve Review Thread',
+      description: `Reopen a resolved review thread on a pull request.
+
+Get thread ids from get_pr_discussion.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          thread_id: {
+            type: 'string',
+            description: 'Review thread id (the "id" of a thread from get_pr_discussion, e.g. "PRRT_...").',
+          },
+        },
+        required: ['pr_name', 'thread_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Unresolve Review Thread',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'edit_review_comment',
+      title: 'Edit Review Comment',
+      description: `Change the text of a review comment you posted on a pull request.
+
+**Use this when:**
+- The user wants to fix or reword one of their own inline comments
+
+Only your own comments can be edited. Get comment ids from get_pr_discussion (the "id" of a comment in a thread) or from the comment's URL ("#discussion_r<id>").
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          comment_id: {
+            type: 'number',
+            description: 'Id of the review comment to edit.',
+          },
+          body: {
+            type: 'string',
+            description: 'The new comment text. Replaces the old text entirely.',
+          },
+        },
+        required: ['pr_name', 'comment_id', 'body'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Edit Review Comment',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'delete_review_comment',
+      title: 'Delete Review Comment',
+      description: `Delete a review comment you posted on a pull request. This can't be undone.
+
+**Use this when:**
+- The user asks to remove one of their own inline comments (e.g. it was posted by mistake)
+
+Only your own comments can be deleted. Once deleted, the same comment can be posted again with post_review_comments. Get comment ids from get_pr_discussion.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          comment_id: {
+            type: 'number',
+            description: 'Id of the review comment to delete.',
+          },
+        },
+        required: ['pr_name', 'comment_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Delete Review Comment',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'dismiss_review',
+      title: 'Dismiss Review',
+      description: `Dismiss an approval or change request you submitted on a pull request, with a message explaining why.
+
+**Use this when:**
+- The user approved or requested changes by mistake, or their verdict no longer applies
+
+Only your own APPROVE and REQUEST_CHANGES reviews can be dismissed; the review and its comments stay visible. Get review ids from post_review_comments, submit_pending_review or get_pr_discussion.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          review_id: {
+            type: 'number',
+            description: 'Id of the review to dismiss.',
+          },
+          message: {
+            type: 'string',
+            description: 'Reason for the dismissal, shown on the PR.',
+          },
+        },
+        required: ['pr_name', 'review_id', 'message'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Dismiss Review',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'request_reviewers',
+      title: 'Request Reviewers',
+      description: `Request reviews on a pull request from users and teams.
+
+**Use this when:**
+- The user asks to "ask the backend team and Sam to review my PR", or to add reviewers
+
+Users must be collaborators on the repository and teams must exist in its organization. Names that fail these checks are returned in 'rejected' with a reason; the valid ones are still requested. If a name is ambiguous (e.g. a first name), ask the user for the GitHub login instead of guessing.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          reviewers: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'GitHub logins, e.g. ["sam"].',
+          },
+          teams: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Team slugs in the repository\'s organization, e.g. ["backend"] or ["my-org/backend"].',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Request Reviewers',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'remove_reviewers',
+      title: 'Remove Reviewers',
+      description: `Withdraw review requests on a pull request from users and teams.
+
+Only pending requests can be withdrawn; reviews that were already submitted stay. Names without a pending request are returned in 'rejected'.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          reviewers: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'GitHub logins, e.g. ["sam"].',
+          },
+          teams: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Team slugs in the repository\'s organization, e.g. ["backend"] or ["my-org/backend"].',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Remove Reviewers',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'add_labels',
+      title: 'Add Labels',
+      description: `Add labels to a pull request.
+
+**Use this when:**
+- The user asks to label or tag a PR, e.g. "label this needs-design"
+
+Only labels that already exist in the repository are added; none are created. Names are matched loosely (case, spaces and punctuation are ignored, and close spellings of longer names match, but never a different number such as "v2" for "v3"), and 'matched' shows which label each approximate name resolved to. Names with no clear match are returned in 'rejected' with the closest labels as suggestions; ask the user which one they meant.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          labels: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Label names, e.g. ["needs-design"]. Close spellings ("needs design") are matched to the existing label.',
+          },
+        },
+        required: ['pr_name', 'labels'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Add Labels',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'remove_labels',
+      title: 'Remove Labels',
+      description: `Remove labels from a pull request. Names are matched loosely against the labels the PR has.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          labels: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Label names, e.g. ["needs-design"]. Close spellings ("needs design") are matched to the existing label.',
+          },
+        },
+        required: ['pr_name', 'labels'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Remove Labels',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'update_assignees',
+      title: 'Update Assignees',
+      description: `Add or remove assignees on a pull request.
+
+**Use this when:**
+- The user says "assign it to me", "assign Sam", or "unassign me"
+
+Use "me" for the authenticated user. Added users must be assignable in the repository (collaborators or org members); others are returned in 'rejected'.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          add: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'GitHub logins to assign, or "me".',
+          },
+          remove: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'GitHub logins to unassign, or "me".',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Update Assignees',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'set_milestone',
+      title: 'Set Milestone',
+      description: `Set or clear the milestone of a pull request.
+
+The milestone is given by title, matched loosely against the repository's open milestones, or by number as "#5". If nothing matches, the error lists the closest open milestones. Pass clear: true to remove the milestone.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          milestone: {
+            type: 'string',
+            description: 'Milestone title (e.g. "v2.1") or number (e.g. "#5").',
+          },
+          clear: {
+            type: 'boolean',
+            description: 'Remove the PR\'s milestone instead of setting one.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Set Milestone',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'mark_pr_ready_for_review',
+      title: 'Mark PR Ready for Review',
+      description: `Mark a draft pull request as ready for review. This notifies requested reviewers and code owners.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Mark PR Ready for Review',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'convert_pr_to_draft',
+      title: 'Convert PR to Draft',
+      description: `Convert an open pull request back to a draft, e.g. when the author wants to rework it before more reviews.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Convert PR to Draft',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'update_pr_branch',
+      title: 'Update PR Branch',
+      description: `Bring a pull request's branch up to date with its base branch.
+
+**Use this when:**
+- get_pr_context or merge_pull_request reports the branch is behind its base; offer this to the user
+- The user asks to "update the branch" or "rebase onto main"
+
+'merge' (default) merges the base into the branch. 'rebase' rewrites the branch's commits on top of the base; only use it when the user asks, since it force-pushes the branch. Either way the PR gets a new head commit once GitHub has applied the update in the background, so fetch get_pr_context again before posting a review or merging with head_sha. The update is refused if the branch changes meanwhile or the base conflicts with it.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          method: {
+            type: 'string',
+            enum: ['merge', 'rebase'],
+            description: 'How to update the branch. Default is "merge".',
+          },
+        },
+        required: ['pr_name'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Update PR Branch',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'merge_pull_request',
+      title: 'Merge Pull Request',
+      description: `Merge a pull request with a merge commit, a squash or a rebase.
+
+**IMPORTANT: Only call this when the user explicitly asks to merge. Never merge as part of a review.**
+
+**Use this when:**
+- The user says "merge it", "squash and merge", "ship it" after reviewing a PR
+
+**Safety checks (nothing is merged if one fails):**
+- The PR is open, not a draft, has no conflicts and isn't behind a base that must be up to date
+- Branch protection (required reviews and checks) is satisfied
+- No checks are failing or still running, unless 'allow_failing_checks' is true; only set it if the user says to merge anyway
+- The PR head is still 'head_sha', the commit the user reviewed
+
+A refused merge returns 'blockedReason' and a message explaining what to fix. 'head_sha' is sent to GitHub with the merge, so a push that lands in between also stops it.
+
+The tool requires GitHub authentication.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pr_name: {
+            type: 'string',
+            description: 'PR identifier in "owner/repo#123" format.',
+          },
+          merge_method: {
+            type: 'string',
+            enum: ['merge', 'squash', 'rebase'],
+            description: 'How to merge. Default is "merge". Repositories can disable some methods.',
+          },
+          commit_title: {
+            type: 'string',
+            description: 'Optional title for the merge or squash commit. GitHub\'s default is used if omitted.',
+          },
+          commit_message: {
+            type: 'string',
+            description: 'Optional message body for the merge or squash commit.',
+          },
+          head_sha: {
+            type: 'string',
+            description: 'The full head commit SHA the user reviewed (pr.headSha from get_pr_context). Nothing is merged unless the PR head is exactly this commit.',
+          },
+          allow_failing_checks: {
+            type: 'boolean',
+            description: 'Merge even if non-required checks are failing or pending. Default false. Required checks are always enforced by GitHub.',
+          },
+          idempotency_key: {
+            type: 'string',
+            description: 'Unique key to prevent a retried call from merging twice. Generate a unique ID for each merge request.',
+          },
+        },
+        required: ['pr_name', 'head_sha', 'idempotency_key'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Merge Pull Request',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['repo'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+  ];
+}
+
+/**
+ * Apps SDK Tool Response with structuredContent
+ */
+interface AppsToolResponse {
+  content: { type: 'text'; text: string }[];
+  structuredContent: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Build the error response for a failed tool call.
+ * Rate-limit errors get a structured "retry at" payload the model can relay.
+ */
+function toolErrorResponse(
+  error: unknown,
+  prefix: string,
+  extra: Record<string, unknown> = {}
+): AppsToolResponse {
+  if (error instanceof GitHubRateLimitError) {
+    const retryAt = error.retryAt.toISOString();
+    return {
+      content: [{
+        type: 'text',
+        text: `${prefix}: GitHub ${error.secondary ? 'secondary ' : ''}rate limit reached. Tell the user to retry after ${retryAt}.`,
+      }],
+      structuredContent: {
+        ...extra,
+        error: error.message,
+        rateLimited: true,
+        resource: error.resource,
+        secondary: error.secondary,
+        retryAt,
+      },
+      isError: true,
+    };
+  }
+
+  if (error instanceof ReviewPolicyError) {
+    const { refusal } = error;
+    const lines = [
+      `Not submitted: the review policy refused ${refusal.event}.`,
+      ...refusal.violations.map((v) => `- ${v.message}`),
+    ];
+    if (refusal.confirmationRequired) {
+      lines.push(
+        '',
+        `The user is being shown a confirmation code for ${refusal.event} on ${refusal.prName}. Ask them to confirm; only if they reply with the code, call again with the same review and confirmation_code set to what they typed (valid until ${refusal.confirmationExpiresAt}).`
+      );
+    }
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { ...extra, error: error.message, policyRefused: true, ...refusal },
+      // The code goes only to the widget; the model never sees _meta
+      ...(error.confirmationCode && { _meta: { reviewConfirmationCode: error.confirmationCode } }),
+      // Not an error when it's only waiting on the user, so the widget is shown
+      isError: !refusal.confirmationRequired,
+    };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: 'text', text: `${prefix}: ${message}` }],
+    structuredContent: { ...extra, error: message },
+    isError: true,
+  };
+}
+
+// ============================================
+// GitHub Tool Handlers
+// ============================================
+
+/**
+ * Handle check_github_auth_status tool
+ */
+function handleCheckGitHubAuthStatus(userId: string): AppsToolResponse {
+  const authenticated = isGitHubAuthenticated(userId);
+
+  if (authenticated) {
+    const user = getGitHubUser(userId);
+    return {
+      content: [{ type: 'text', text: `User is connected to GitHub as @${user?.login}.` }],
+      structuredContent: {
+        authenticated: true,
+        authType: 'github',
+        user,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
+      },
+      isError: false,
+    };
+  } else {
+    const authUrl = getGitHubAuthUrl(userId);
+    return {
+      content: [{ type: 'text', text: 'User needs to connect GitHub.' }],
+      structuredContent: {
+        authenticated: false,
+        authType: 'github',
+        authUrl,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
+      },
+      isError: false,
+    };
+  }
+}
+
+interface ListPullRequestsArgs {
+  username?: string;
+  limit?: number;
+  state?: PullRequestSearchState;
+  merged_from?: string;
+  merged_to?: string;
+  date_from?: string;
+  date_to?: string;
+  repository?: string;
+  filter_type?: 'authored' | 'reviewing' | 'involved';
+  cursor?: string;
+}
+
+/**
+ * Handle list_pull_requests tool
+ */
+async function handleListPullRequests(
+  args: ListPullRequestsArgs,
+  userId: string
+): Promise<AppsToolResponse> {
+  // Check authentication first
+  if (!isGitHubAuthenticated(userId)) {
+    const authUrl = getGitHubAuthUrl(userId);
+    return {
+      content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
+      structuredContent: {
+        authRequired: true,
+        authType: 'github',
+        authUrl,
+        pendingParams: args, // Preserve the original parameters
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
+      },
+      isError: false,
+    };
+  }
+
+  try {
+    const result = await listPullRequests(userId, {
+      specifiedUser: args.username,
+      limit: args.limit,
+      state: args.state,
+      mergedFrom: args.merged_from,
+      mergedTo: args.merged_to,
+      dateFrom: args.date_from,
+      dateTo: args.date_to,
+      repository: args.repository,
+      filterType: args.filter_type,
+      cursor: args.cursor,
+    });
+    const shown = result.pullRequests.length;
+    const stateWord = result.state === 'all' ? '' : `${result.state} `;
+
+    // Build human-readable message based on search type
+    let message: string;
+    switch (result.searchType) {
+      case 'authored':
+        message = shown > 0
+          ? `Found ${result.totalCount} ${stateWord}PR${result.totalCount !== 1 ? 's' : ''} that you authored.`
+          : `You have no ${stateWord}PRs.`;
+        break;
+      case 'reviewing':
+        message = shown > 0
+          ? `Found ${result.totalCount} ${stateWord}PR${result.totalCount !== 1 ? 's' : ''} waiting for your review.`
+          : `No ${stateWord}PRs waiting for your review.`;
+        break;
+      case 'involved':
+        message = shown > 0
+          ? `Found ${result.totalCount} ${stateWord}PR${result.totalCount !== 1 ? 's' : ''} you're involved in.`
+          : `No ${stateWord}PRs found where you are involved.`;
+        break;
+      case 'user_authored':
+        message = shown > 0
+          ? `Found ${result.totalCount} ${stateWord}PR${result.totalCount !== 1 ? 's' : ''} by ${result.searchedUser}.`
+          : `No ${stateWord}PRs found by ${result.searchedUser}.`;
+        break;
+      default:
+        message = `Found ${result.totalCount} pull request${result.totalCount !== 1 ? 's' : ''}.`;
+    }
+
+    if (result.nextCursor) {
+      message += ` Showing ${shown}. More results are available: call list_pull_requests again with cursor "${result.nextCursor}".`;
+    }
+
+    // Format PR list for text output
+    const prList = result.pullRequests.map((pr, i) => {
+      const status = pr.draft ? '📝 Draft' : pr.merged_at ? '🟣 Merged' : pr.state === 'open' ? '🟢 Open' : '🔴 Closed';
+      const merged = pr.merged_at ? ` (merged ${pr.merged_at.slice(0, 10)})` : '';
+      const details = [
+        pr.review_decision ? `review: ${pr.review_decision.toLowerCase().replace(/_/g, ' ')}` : '',
+        pr.ci_status ? `CI: ${pr.ci_status}` : '',
+        pr.comments ? `${pr.comments} comment${pr.comments !== 1 ? 's' : ''}` : '',
+      ].filter(Boolean).join(', ');
+      return `${i + 1}. ${status} #${pr.number} "${pr.title}" by @${pr.user.login} in ${pr.repository.full_name}${merged}${details ? ` [${details}]` : ''}`;
+    }).join('\n');
+
+    return {
+      content: [{
+        type: 'text',
+        text: message + (shown > 0 ? `\n\n${prList}` : ''),
+      }],
+      structuredContent: {
+        pullRequests: result.pullRequests,
+        searchType: result.searchType,
+        state: result.state,
+        searchedUser: result.searchedUser,
+        totalCount: result.totalCount,
+        nextCursor: result.nextCursor,
+        // Arguments that rerun this search from the first page (the widget's refresh)
+        searchArgs: {
+          username: result.filters.specifiedUser,
+          limit: result.filters.limit,
+          state: result.filters.state,
+          merged_from: result.filters.mergedFrom,
+          merged_to: result.filters.mergedTo,
+          date_from: result.filters.dateFrom,
+          date_to: result.filters.dateTo,
+          repository: result.filters.repository,
+          filter_type: result.filters.filterType,
+        },
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
+      },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching pull requests');
+  }
+}
+
+interface GetPRContextArgs {
+  pr_name: string;
+  max_chars?: number;
+  file_cursor?: string;
+  include_paths?: string[];
+  exclude_paths?: string[];
+  diff_format?: 'unified' | 'hunks';
+  include_discussion?: boolean;
+  include_checks?: boolean;
+  since?: string;
+}
+
+/**
+ * Handle get_pr_context tool
+ */
+async function handleGetPRContext(
+  args: GetPRContextArgs,
+  userId: string
+): Promise<AppsToolResponse> {
+  // Check authentication first
+  if (!isGitHubAuthenticated(userId)) {
+    const authUrl = getGitHubAuthUrl(userId);
+    return {
+      content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
+      structuredContent: {
+        authRequired: true,
+        authType: 'github',
+        authUrl,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
+      },
+      isError: false,
+    };
+  }
+
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: pr_name parameter is required (e.g., "owner/repo#123" or "pr-123")' }],
+      structuredContent: { error: 'pr_name parameter is required' },
+      isError: true,
+    };
+  }
+
+  if (args.since !== undefined && typeof args.since !== 'string') {
+    return {
+      content: [{ type: 'text', text: `Error: ${SINCE_FORMAT_MESSAGE}` }],
+      structuredContent: { error: SINCE_FORMAT_MESSAGE },
+      isError: true,
+    };
+  }
+
+  try {
+    // A cursor continues the view it was issued for
+    const since = args.file_cursor ? cursorSince(args.file_cursor) : args.since;
+    const fullContext = await getPullRequestContext(userId, args.pr_name);
+    const prName = `${fullContext.pr.repository.fullName}#${fullContext.pr.number}`;
+    const [view, fullDiscussion, checks] = await Promise.all([
+      since ? narrowToChangesSince(userId, fullContext, since) : fullContext,
+      args.include_discussion ? getPullRequestDiscussion(userId, prName) : undefined,
+      args.include_checks ? getPullRequestChecks(userId, prName) : undefined,
+    ]);
+    // The discussion gets up to a quarter of max_chars; the diffs get the rest
+    const discussion = fullDiscussion && fitDiscussion(fullDiscussion, Math.floor(resolveMaxChars(args.max_chars) / 4));
+    const shaped = shapePullRequestContext(view, {
+      maxChars: args.max_chars,
+      cursor: args.file_cursor,
+      include: args.include_paths,
+      exclude: args.exclude_paths,
+      diffFormat: args.diff_format,
+      reviewFiles: fullContext.files,
+      reservedChars: discussion ? JSON.stringify(discussion).length : 0,
+    });
+    const context = { ...shaped, discussion, checks };
+
+    // Build a text summary for the content
+    const filesChangedSummary = context.files.slice(0, 5).map((f) => {
+      const status = f.status === 'added' ? '➕' : f.status === 'removed' ? '➖' : '📝';
+      return `${status} ${f.filename} (+${f.additions}/-${f.deletions})`;
+    }).join('\n');
+
+    const moreFiles = context.files.length > 5 ? `\n... and ${context.files.length - 5} more files` : '';
+
+    const tooLarge = context.files.filter((f) => f.patchUnavailableReason === 'too_large');
+    const binary = context.files.filter((f) => f.patchUnavailableReason === 'binary');
+    const empty = context.files.filter((f) => f.patchUnavailableReason === 'empty');
+    const clipped = context.files.filter((f) => f.patchClipped);
+    const page = context.page;
+    const filter = context.pathFilter;
+    const changesSummary = filter
+      ? `${context.files.length} of ${context.changedFiles} files match the path filters (+${filter.additions}/-${filter.deletions}); ${filter.hiddenFiles} hidden`
+      : `${context.changedFiles} files (+${context.additions}/-${context.deletions})`;
+    const pageNote = page && page.totalFiles > 0
+      ? page.nextCursor || page.offset > 0
+        ? `**Diffs:** files ${page.offset + 1}-${page.offset + page.fileCount} of ${page.totalFiles} (source → tests → generated).${page.nextCursor ? ` For more, call get_pr_context with file_cursor "${page.nextCursor}".` : ' This is the last page.'}`
+        : `**Diffs:** all ${page.totalFiles} files.`
+      : '';
+    const incremental = context.since?.fromSha ? context.since : undefined;
+    const diffNotes = [
+      pageNote,
+      context.filesTruncated
+        ? incremental
+          ? `⚠️ GitHub lists at most ${context.files.length + (filter?.hiddenFiles ?? 0)} files in a comparison, so some changes may be missing.`
+          : `⚠️ GitHub only lists the first ${context.files.length + (filter?.hiddenFiles ?? 0)} of ${context.changedFiles} changed files.`
+        : '',
+      tooLarge.length > 0
+        ? `⚠️ No diff available (too large): ${tooLarge.map((f) => f.filename).join(', ')}`
+        : '',
+      binary.length > 0
+        ? `No diff available (binary or mode-only change): ${binary.map((f) => f.filename).join(', ')}`
+        : '',
+      empty.length > 0
+        ? `No diff available (empty file): ${empty.map((f) => f.filename).join(', ')}`
+        : '',
+      clipped.length > 0
+        ? `⚠️ Diff cut to fit the budget: ${clipped.map((f) => f.filename).join(', ')} (use get_file_content for the rest)`
+        : '',
+    ].filter(Boolean).join('\n');
+
+    let sinceNote = '';
+    if (context.since) {
+      const since = context.since;
+      const point = since.mode === 'last_review'
+        ? `your last review${since.reviewedAt ? ` (${since.reviewedAt.slice(0, 10)})` : ''}`
+        : since.mode === 'commit' ? `commit ${since.requested.slice(0, 7)}` : since.requested;
+      const commitLines = since.newCommits
+        .slice(-5)
+        .map((c) => `- ${c.sha.slice(0, 7)} ${c.message} (@${c.author})`)
+        .join('\n');
+      sinceNote = [
+        since.fromSha
+          ? `**Since ${point}:** ${since.totalNewCommits} new commit(s); only changes after ${since.fromSha.slice(0, 7)} are shown.${context.files.length === 0 ? ' No files changed since then.' : ''}`
+          : `⚠️ ${since.fallbackReason}`,
+        commitLines,
+        since.totalNewCommits > 5 && commitLines ? `... and ${since.totalNewCommits - 5} more commit(s)` : '',
+        since.excludedFiles > 0
+          ? `${since.excludedFiles} changed file(s) not part of this PR (e.g. from merging ${context.baseRef}) were left out.`
+          : '',
+      ].filter(Boolean).join('\n');
+    }
+
+    const textSummary = `**${context.pr.title}** (#${context.pr.number})
+
+**Repository:** ${context.pr.repository.fullName}
+**Author:** @${context.pr.author}
+**State:** ${context.pr.state}
+**Branches:** ${context.headRef} → ${context.baseRef}${context.mergeableState === 'behind' ? ` (⚠️ behind ${context.baseRef}; offer to update it with update_pr_branch)` : ''}
+**Head commit:** ${context.pr.headSha} (pass as head_sha when posting the review)
+
+${sinceNote ? `${sinceNote}\n\n` : ''}**Changes:** ${changesSummary}
+
+**Files:**
+${filesChangedSummary}${moreFiles}
+${diffNotes ? `\n${diffNotes}\n` : ''}${context.checks ? `\n${summarizeChecks(context.checks, 5)}\n` : ''}${context.discussion ? `\n${summarizeDiscussion(context.discussion, 10)}\n` : ''}
+${context.description ? `**Description:**\n${context.description.slice(0, 500)}${context.description.length > 500 ? '...' : ''}` : ''}`;
+
+    return {
+      content: [{ type: 'text', text: textSummary }],
+      structuredContent: {
+        prContext: context,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/github-widget.html',
+      },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching PR context');
+  }
+}
+
+/**
+ * Response asking the user to connect GitHub before a tool can run
+ */
+function authRequiredResponse(userId: string): AppsToolResponse {
+  return {
+    content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
+    structuredContent: {
+      authRequired: true,
+      authType: 'github',
+      authUrl: getGitHubAuthUrl(userId),
+    },
+    isError: false,
+  };
+}
+
+/**
+ * Handle get_file_content tool
+ */
+async function handleGetFileContent(
+  args: { pr_name: string; path: string; ref?: 'head' | 'base'; start_line?: number; end_line?: number },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+
+  if (!args.pr_name || typeof args.pr_name !== 'string' || !args.path || typeof args.path !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: pr_name and path parameters are required' }],
+      structuredContent: { error: 'pr_name and path parameters are required' },
+      isError: true,
+    };
+  }
+
+  const isLineNumber = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 1);
+  if (!isLineNumber(args.start_line) || !isLineNumber(args.end_line)) {
+    return {
+      content: [{ type: 'text', text: 'Error: start_line and end_line must be positive integers (lines are numbered from 1)' }],
+      structuredContent: { error: 'start_line and end_line must be positive integers' },
+      isError: true,
+    };
+  }
+  if (args.start_line !== undefined && args.end_line !== undefined && args.start_line > args.end_line) {
+    return {
+      content: [{ type: 'text', text: `Error: start_line (${args.start_line}) must not be greater than end_line (${args.end_line})` }],
+      structuredContent: { error: 'start_line must not be greater than end_line' },
+      isError: true,
+    };
+  }
+
+  try {
+    const file = await getFileContent(userId, args.pr_name, args.path, {
+      ref: args.ref,
+      startLine: args.start_line,
+      endLine: args.end_line,
+    });
+
+    const header = `**${file.path}** at ${file.ref} (${file.commitSha.slice(0, 7)})`;
+    let text: string;
+    if (file.tooLarge) {
+      text = `${header}\n\nFile is too large to fetch (${file.size} bytes). View it on GitHub: ${file.htmlUrl}`;
+    } else if (file.binary) {
+      text = `${header}\n\nBinary file (${file.size} bytes) - content not shown.`;
+    } else if (file.totalLines === 0) {
+      text = `${header}\n\nFile is empty.`;
+    } else {
+      const width = String(file.endLine).length;
+      const numbered = file.content
+        .split('\n')
+        .map((line, i) => `${String(file.startLine + i).padStart(width)}: ${line}`)
+        .join('\n');
+      text = `${header} - lines ${file.startLine}-${file.endLine} of ${file.totalLines}\n\n\`\`\`\n${numbered}\n\`\`\``;
+      if (file.truncated) {
+        text += `\n\nMore lines available: call get_file_content with start_line ${file.endLine + 1}.`;
+      }
+    }
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { file },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching file content');
+  }
+}
+
+/**
+ * Handle get_pr_checks tool
+ */
+async function handleGetPRChecks(
+  args: { pr_name: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+
+  try {
+    const checks = await getPullRequestChecks(userId, args.pr_name);
+    const passing = checks.checks
+      .filter((c) => c.state === 'success')
+      .map((c) => c.name);
+    const text = [
+      `Checks on ${args.pr_name} (${checks.headSha.slice(0, 7)}):`,
+      summarizeChecks(checks),
+      passing.length > 0 ? `**Passing:** ${passing.join(', ')}` : '',
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { checks },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching PR checks');
+  }
+}
+
+/**
+ * Handle list_pr_commits tool
+ */
+async function handleListPRCommits(
+  args: { pr_name: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+
+  try {
+    const result = await listPullRequestCommits(userId, args.pr_name);
+    const lines = result.commits.map((commit, i) => {
+      const flags = [commit.verified ? 'verified' : '', commit.isMerge ? 'merge' : ''].filter(Boolean).join(', ');
+      const date = commit.date ? `, ${commit.date.slice(0, 10)}` : '';
+      return `${i + 1}. ${commit.sha.slice(0, 7)} ${commit.headline} (@${commit.author}${date}${flags ? `, ${flags}` : ''})`;
+    });
+    const text = [
+      `**${result.totalCommits} commit(s)** on ${args.pr_name}:`,
+      lines.join('\n'),
+      result.truncated ? `⚠️ GitHub only lists the first ${result.commits.length} commits.` : '',
+      'Use get_commit_diff with a SHA to review a single commit.',
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { ...result },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error listing PR commits');
+  }
+}
+
+interface GetCommitDiffArgs {
+  pr_name: string;
+  sha: string;
+  max_chars?: number;
+  file_cursor?: string;
+  include_paths?: string[];
+  exclude_paths?: string[];
+  diff_format?: 'unified' | 'hunks';
+}
+
+/**
+ * Handle get_commit_diff tool
+ */
+async function handleGetCommitDiff(
+  args: GetCommitDiffArgs,
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (typeof args.sha !== 'string' || !/^[0-9a-f]{7,40}$/i.test(args.sha)) {
+    return {
+      content: [{ type: 'text', text: 'Error: sha must be a commit SHA (7-40 hex characters)' }],
+      structuredContent: { error: 'sha must be a commit SHA' },
+      isError: true,
+    };
+  }
+
+  try {
+    const diff = await getCommitDiff(userId, args.pr_name, args.sha, {
+      maxChars: args.max_chars,
+      cursor: args.file_cursor,
+      include: args.include_paths,
+      exclude: args.exclude_paths,
+      diffFormat: args.diff_format,
+    });
+    const { commit, page } = diff;
+    const fileLines = diff.files
+      .slice(0, 20)
+      .map((f) => `- ${f.filename} (+${f.additions}/-${f.deletions})`)
+      .join('\n');
+    const notes = [
+      diff.files.length > 20 ? `... and ${diff.files.length - 20} more files` : '',
+      page.nextCursor
+        ? `**Diffs:** files ${page.offset + 1}-${page.offset + page.fileCount} of ${page.totalFiles}. For more, call get_commit_diff with file_cursor "${page.nextCursor}".`
+        : '',
+      diff.filesTruncated ? `⚠️ GitHub only lists the first ${diff.files.length + (diff.pathFilter?.hiddenFiles ?? 0)} files of a commit.` : '',
+      diff.pathFilter ? `${diff.pathFilter.hiddenFiles} file(s) hidden by path filters.` : '',
+    ].filter(Boolean).join('\n');
+
+    const text = `**${commit.headline}** (${commit.sha.slice(0, 7)})
+
+**Author:** @${commit.author}${commit.date ? ` on ${commit.date.slice(0, 10)}` : ''}
+**Signature:** ${commit.verified ? 'verified' : `not verified (${commit.verificationReason})`}
+**Changes:** ${page.totalFiles} files (+${diff.additions}/-${diff.deletions})
+${commit.message.includes('\n') ? `\n**Message:**\n${commit.message.slice(0, 2000)}\n` : ''}
+**Files:**
+${fileLines}${notes ? `\n${notes}` : ''}`;
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { commitDiff: diff },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching commit diff');
+  }
+}
+
+/**
+ * Handle get_pr_discussion tool
+ */
+async function handleGetPRDiscussion(
+  args: { pr_name: string; include_resolved?: boolean },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: pr_name parameter is required (e.g., "owner/repo#123" or "pr-123")' }],
+      structuredContent: { error: 'pr_name parameter is required' },
+      isError: true,
+    };
+  }
+
+  try {
+    const discussion = await getPullRequestDiscussion(userId, args.pr_name, {
+      includeResolved: args.include_resolved,
+    });
+    const issueComments = discussion.issueComments
+      .slice(-10)
+      .map((c) => `- @${c.author}: ${c.body.replace(/\s+/g, ' ').slice(0, 200)}`)
+      .join('\n');
+
+    const text = [
+      `Discussion on ${args.pr_name}:`,
+      summarizeDiscussion(discussion),
+      issueComments ? `**Latest conversation comments:**\n${issueComments}` : '',
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { discussion },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching PR discussion');
+  }
+}
+
+/**
+ * Text describing how the PR head moved since a review's commit
+ */
+function formatHeadChange(stale: StaleReviewInfo): string {
+  const commitLines = stale.newCommits
+    .map((c) => `- ${c.sha.slice(0, 7)} ${c.message} (@${c.author})`)
+    .join('\n');
+  const history = stale.relation === 'diverged'
+    ? 'The branch history was rewritten (force-push or rebase), so earlier line numbers may not apply at all.'
+    : `${stale.totalNewCommits} new commit(s) were pushed:`;
+  const more = stale.totalNewCommits > stale.newCommits.length && stale.newCommits.length > 0
+    ? `\n... and ${stale.totalNewCommits - stale.newCommits.length} earlier commit(s)`
+    : '';
+  return `${history}${commitLines ? `\n${commitLines}${more}` : ''}`;
+}
+
+/**
+ * Handle post_review_comments tool
+ */
+async function handlePostReviewComments(
+  args: {
+    pr_name: string;
+    comments: ReviewComment[];
+    event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+    idempotency_key: string;
+    on_invalid_comment?: InvalidCommentStrategy;
+    head_sha: string;
+    confirmation_code?: string;
+  },
+  userId: string
+): Promise<AppsToolResponse> {
+  // Check authentication first
+  if (!isGitHubAuthenticated(userId)) {
+    const authUrl = getGitHubAuthUrl(userId);
+    return {
+      content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
+      structuredContent: {
+        authRequired: true,
+        authType: 'github',
+        authUrl,
+      },
+      isError: false,
+    };
+  }
+
+  // Validate required parameters
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: pr_name parameter is required (e.g., "owner/repo#123")' }],
+      structuredContent: { error: 'pr_name parameter is required', success: false },
+      isError: true,
+    };
+  }
+
+  // Comments can be empty for APPROVE or REQUEST_CHANGES events
+  const comments = args.comments || [];
+  if (!Array.isArray(comments)) {
+    return {
+      content: [{ type: 'text', text: 'Error: comments must be an array' }],
+      structuredContent: { error: 'comments must be an array', success: false },
+      isError: true,
+    };
+  }
+
+  // For COMMENT event, require at least one comment
+  if ((!args.event || args.event === 'COMMENT') && comments.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: At least one comment is required for COMMENT event' }],
+      structuredContent: { error: 'comments array is required for COMMENT event', success: false },
+      isError: true,
+    };
+  }
+
+  if (!args.idempotency_key || typeof args.idempotency_key !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: idempotency_key is required to prevent duplicate comments' }],
+      structuredContent: { error: 'idempotency_key is required', success: false },
+      isError: true,
+    };
+  }
+
+  if (typeof args.head_sha !== 'string' || !/^[0-9a-f]{40}$/i.test(args.head_sha)) {
+    return {
+      content: [{ type: 'text', text: 'Error: head_sha is required: the full 40-character head commit SHA the review was written against (pr.headSha from get_pr_context)' }],
+      structuredContent: { error: 'head_sha must be a full commit SHA', success: false },
+      isError: true,
+    };
+  }
+
+  try {
+    const result = await postReviewComments(
+      userId,
+      args.pr_name,
+      comments,
+      args.event || 'COMMENT',
+      args.idempotency_key,
+      args.on_invalid_comment || 'snap',
+      args.head_sha,
+      args.confirmation_code
+    );
+
+    if (result.staleReview) {
+      const stale = result.staleReview;
+      return {
+        content: [{
+          type: 'text',
+          text: `${result.message}\n\n${formatHeadChange(stale)}\n\nCall get_pr_context again, check the comments still apply, then post with head_sha "${stale.headSha}".`,
+        }],
+        structuredContent: {
+          success: false,
+          prUrl: result.prUrl,
+          commentsPosted: 0,
+          message: result.message,
+          staleReview: stale,
+        },
+        isError: true,
+      };
+    }
+
+    // Build human-readable summary
+    const results = result.commentResults || [];
+    const inlineCount = results.filter(r => r.status === 'inline' || r.status === 'snapped').length;
+    const generalCount = results.filter(r => r.status === 'general' || r.status === 'moved_to_body').length;
+
+    let summary = result.message;
+    if (inlineCount > 0 && generalCount > 0) {
+      summary += ` (${inlineCount} inline, ${generalCount} general)`;
+    } else if (inlineCount > 0) {
+      summary += ` (${inlineCount} inline)`;
+    } else if (generalCount > 0) {
+      summary += ` (${generalCount} general)`;
+    }
+
+    const validationNotes = results
+      .filter(r => r.error)
+      .map(r => {
+        const target = `#${r.index + 1} (${r.path}:${r.startLine !== undefined ? `${r.startLine}-` : ''}${r.line})`;
+        switch (r.status) {
+          case 'snapped': return `- ${target} moved to line ${r.postedLine}: ${r.error}`;
+          case 'moved_to_body': return `- ${target} moved to the review body: ${r.error}`;
+          default: return `- ${target} not posted: ${r.error}`;
+        }
+      })
+      .join('\n');
+    if (validationNotes) {
+      summary += `\n\n**Comment placement:**\n${validationNotes}`;
+    }
+
+    const viewLink = result.reviewUrl || result.prUrl;
+    const linkText = result.reviewUrl ? 'View review' : 'View PR';
+    
+    return {
+      content: [{ type: 'text', text: `${summary}\n\n${linkText}: ${viewLink}` }],
+      structuredContent: {
+        success: result.success,
+        reviewId: result.reviewId,
+        prUrl: result.prUrl,
+        reviewUrl: result.reviewUrl,
+        commentsPosted: result.commentsPosted,
+        message: result.message,
+        commentResults: result.commentResults,
+      },
+      isError: !result.success,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error posting review', { success: false });
+  }
+}
+
+// ============================================
+// Pending Review Handlers
+// ============================================
+
+/**
+ * Text listing of a pending review's body and draft comments
+ */
+function formatPendingReview(review: PendingReview): string {
+  const comments = review.comments.map((c) => {
+    const location = `${c.path}:${c.startLine ? `${c.startLine}-` : ''}${c.line ?? '?'}`;
+    const body = c.body.length > 120 ? `${c.body.slice(0, 120)}...` : c.body;
+    return `- [id ${c.id}] ${location} (${c.side}): ${body.replace(/\n/g, ' ')}`;
+  });
+  return [
+    `**Draft comments (${review.comments.length}):**`,
+    comments.length > 0 ? comments.join('\n') : '_None yet_',
+    review.body ? `\n**Review body:**\n${review.body}` : '',
+  ].filter(Boolean).join('\n');
+}
+
+function prNameRequiredResponse(): AppsToolResponse {
+  return {
+    content: [{ type: 'text', text: 'Error: pr_name parameter is required (e.g., "owner/repo#123")' }],
+    structuredContent: { error: 'pr_name parameter is required', success: false },
+    isError: true,
+  };
+}
+
+/**
+ * Handle start_pending_review tool
+ */
+async function handleStartPendingReview(
+  args: { pr_name: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+
+  try {
+    const { review, created } = await startPendingReview(userId, args.pr_name);
+    const intro = created
+      ? `Started a pending review on ${args.pr_name}. It stays private until submitted.`
+      : `A pending review is already in progress on ${args.pr_name}.`;
+    return {
+      content: [{ type: 'text', text: `${intro}\n\n${formatPendingReview(review)}` }],
+      structuredContent: { success: true, created, pendingReview: review },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error starting pending review', { success: false });
+  }
+}
+
+/**
+ * Handle add_pending_review_comments tool
+ */
+async function handleAddPendingReviewComments(
+  args: { pr_name: string; comments: ReviewComment[]; on_invalid_comment?: InvalidCommentStrategy },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (!Array.isArray(args.comments) || args.comments.length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: comments must be a non-empty array' }],
+      structuredContent: { error: 'comments must be a non-empty array', success: false },
+      isError: true,
+    };
+  }
+
+  try {
+    const { review, commentResults, staleReview } = await addPendingReviewComments(
+      userId,
+      args.pr_name,
+      args.comments,
+      args.on_invalid_comment || 'snap'
+    );
+
+    if (staleReview) {
+      const message = `PR ${args.pr_name} changed since your pending review was started: the head is now ${staleReview.headSha.slice(0, 7)}, not ${staleReview.reviewedSha.slice(0, 7)}. Nothing was added.`;
+      return {
+        content: [{
+          type: 'text',
+          text: `${message}\n\n${formatHeadChange(staleReview)}\n\nThe draft comments are pinned to the old commit. Submit or discard the pending review (discard_pending_review), then call get_pr_context again and restart the review on the new head.`,
+        }],
+        structuredContent: {
+          success: false,
+          message,
+          staleReview,
+          pendingReview: review,
+        },
+        isError: true,
+      };
+    }
+
+    const added = commentResults.filter((r) => r.status !== 'rejected' && r.status !== 'duplicate').length;
+    const notes = commentResults
+      .filter((r) => r.error)
+      .map((r) => `- #${r.index + 1} (${r.path}:${r.line}) ${r.status.replace(/_/g, ' ')}: ${r.error}`)
+      .join('\n');
+
+    let text = `Added ${added} of ${args.comments.length} comment(s) to your pending review. Nothing is published until you submit.`;
+    if (notes) {
+      text += `\n\n**Comment placement:**\n${notes}`;
+    }
+    text += `\n\n${formatPendingReview(review)}`;
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { success: true, pendingReview: review, commentResults },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error adding pending review comments', { success: false });
+  }
+}
+
+/**
+ * Handle remove_pending_review_comment tool
+ */
+async function handleRemovePendingReviewComment(
+  args: { pr_name: string; comment_id: number },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (typeof args.comment_id !== 'number') {
+    return {
+      content: [{ type: 'text', text: 'Error: comment_id is required' }],
+      structuredContent: { error: 'comment_id is required', success: false },
+      isError: true,
+    };
+  }
+
+  try {
+    const review = await removePendingReviewComment(userId, args.pr_name, args.comment_id);
+    return {
+      content: [{ type: 'text', text: `Removed draft comment ${args.comment_id}.\n\n${formatPendingReview(review)}` }],
+      structuredContent: { success: true, pendingReview: review },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error removing pending review comment', { success: false });
+  }
+}
+
+/**
+ * Handle list_pending_review tool
+ */
+async function handleListPendingReview(
+  args: { pr_name: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+
+  try {
+    const review = await getPendingReview(userId, args.pr_name);
+    const text = review
+      ? `Pending review on ${args.pr_name}:\n\n${formatPendingReview(review)}`
+      : `You have no pending review on ${args.pr_name}.`;
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { pendingReview: review },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error fetching pending review');
+  }
+}
+
+/**
+ * Handle submit_pending_review tool
+ */
+async function handleSubmitPendingReview(
+  args: {
+    pr_name: string;
+    event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+    body?: string;
+    confirmation_code?: string;
+  },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+
+  try {
+    const result = await submitPendingReview(
+      userId,
+      args.pr_name,
+      args.event || 'COMMENT',
+      args.body,
+      args.confirmation_code
+    );
+    return {
+      content: [{
+        type: 'text',
+        text: `Submitted your review (${result.state.toLowerCase().replace(/_/g, ' ')}) with ${result.commentsSubmitted} comment(s).\n\nView review: ${result.reviewUrl}`,
+      }],
+      structuredContent: { success: true, ...result },
       isError: false,
     };
-  } else {
-    const authUrl = getGitHubAuthUrl(userId);
+  } catch (error) {
+    return toolErrorResponse(error, 'Error submitting pending review', { success: false });
+  }
+}
+
+/**
+ * Handle discard_pending_review tool
+ */
+async function handleDiscardPendingReview(
+  args: { pr_name: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+
+  try {
+    const result = await discardPendingReview(userId, args.pr_name);
     return {
-      content: [{ type: 'text', text: 'User needs to connect GitHub.' }],
-      structuredContent: {
-        authenticated: false,
-        authType: 'github',
-        authUrl,
-      },
-      _meta: {
-        'openai/outputTemplate': 'ui://widget/github-widget.html',
-      },
+      content: [{ type: 'text', text: `Discarded your pending review and its ${result.commentsDiscarded} draft comment(s).` }],
+      structuredContent: { success: true, ...result },
       isError: false,
     };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error discarding pending review', { success: false });
   }
 }
 
+// ============================================
+// Review Thread Handlers
+// ============================================
+
 /**
- * Handle list_pull_requests tool
+ * Handle reply_to_review_thread tool
  */
-async function handleListPullRequests(
-  args: { username?: string; limit?: number; date_from?: string; date_to?: string; repository?: string; filter_type?: 'authored' | 'reviewing' | 'involved' },
+async function handleReplyToReviewThread(
+  args: { pr_name: string; thread_id: string; body: string; resolve?: boolean; idempotency_key: string },
   userId: string
 ): Promise<AppsToolResponse> {
-  // Check authentication first
   if (!isGitHubAuthenticated(userId)) {
-    const authUrl = getGitHubAuthUrl(userId);
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (!args.thread_id || !args.body || !args.idempotency_key) {
     return {
-      content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
-      structuredContent: {
-        authRequired: true,
-        authType: 'github',
-        authUrl,
-        pendingParams: args, // Preserve the original parameters
-      },
-      _meta: {
-        'openai/outputTemplate': 'ui://widget/github-widget.html',
-      },
-      isError: false,
+      content: [{ type: 'text', text: 'Error: thread_id, body and idempotency_key are required' }],
+      structuredContent: { error: 'thread_id, body and idempotency_key are required', success: false },
+      isError: true,
     };
   }
 
   try {
-    const result = await listPullRequests(userId, args.username, args.limit, args.date_from, args.date_to, args.repository, args.filter_type);
-
-    // Build human-readable message based on search type
-    let message: string;
-    switch (result.searchType) {
-      case 'authored':
-        message = result.totalCount > 0
-          ? `Found ${result.totalCount} open PR${result.totalCount !== 1 ? 's' : ''} that you authored.`
-          : 'You have no open PRs.';
-        break;
-      case 'reviewing':
-        message = result.totalCount > 0
-          ? `Found ${result.totalCount} PR${result.totalCount !== 1 ? 's' : ''} waiting for your review.`
-          : 'No PRs waiting for your review.';
-        break;
-      case 'involved':
-        message = result.totalCount > 0
-          ? `Found ${result.totalCount} PR${result.totalCount !== 1 ? 's' : ''} you're involved in.`
-          : 'No PRs found where you are involved.';
-        break;
-      case 'user_authored':
-        message = result.totalCount > 0
-          ? `Found ${result.totalCount} open PR${result.totalCount !== 1 ? 's' : ''} by ${result.searchedUser}.`
-          : `No open PRs found by ${result.searchedUser}.`;
-        break;
-      default:
-        message = `Found ${result.totalCount} pull request${result.totalCount !== 1 ? 's' : ''}.`;
-    }
+    const result = await replyToReviewThread(
+      userId,
+      args.pr_name,
+      args.thread_id,
+      args.body,
+      args.idempotency_key,
+      { resolve: args.resolve }
+    );
+    const action = result.duplicate ? 'This reply was already posted' : 'Replied to the thread';
+    const resolvedNote = result.resolved ? ' The thread is resolved.' : '';
+    return {
+      content: [{ type: 'text', text: `${action}.${resolvedNote}\n\nView reply: ${result.url}` }],
+      structuredContent: { success: true, ...result },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error replying to review thread', { success: false });
+  }
+}
 
-    // Format PR list for text output
-    const prList = result.pullRequests.map((pr, i) => {
-      const status = pr.draft ? '📝 Draft' : pr.state === 'open' ? '🟢 Open' : '🔴 Closed';
-      return `${i + 1}. ${status} #${pr.number} "${pr.title}" by @${pr.user.login} in ${pr.repository.full_name}`;
-    }).join('\n');
+/**
+ * Handle resolve_review_thread and unresolve_review_thread tools
+ */
+async function handleSetReviewThreadResolved(
+  args: { pr_name: string; thread_id: string },
+  userId: string,
+  resolved: boolean
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (!args.thread_id || typeof args.thread_id !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: thread_id is required' }],
+      structuredContent: { error: 'thread_id is required', success: false },
+      isError: true,
+    };
+  }
 
+  try {
+    const result = await setReviewThreadResolved(userId, args.pr_name, args.thread_id, resolved);
+    const state = result.resolved ? 'resolved' : 'unresolved';
     return {
-      content: [{
-        type: 'text',
-        text: message + (result.totalCount > 0 ? `\n\n${prList}` : ''),
-      }],
-      structuredContent: {
-        pullRequests: result.pullRequests,
-        searchType: result.searchType,
-        searchedUser: result.searchedUser,
-        totalCount: result.totalCount,
-      },
-      _meta: {
-        'openai/outputTemplate': 'ui://widget/github-widget.html',
-      },
+      content: [{ type: 'text', text: result.changed ? `Thread marked as ${state}.` : `Thread was already ${state}.` }],
+      structuredContent: { success: true, ...result },
       isError: false,
     };
-  } catch (error: any) {
+  } catch (error) {
+    return toolErrorResponse(error, `Error ${resolved ? 'resolving' : 'unresolving'} review thread`, { success: false });
+  }
+}
+
+// ============================================
+// Review Management Handlers
+// ============================================
+
+function commentIdRequiredResponse(): AppsToolResponse {
+  return {
+    content: [{ type: 'text', text: 'Error: comment_id must be a number' }],
+    structuredContent: { error: 'comment_id must be a number', success: false },
+    isError: true,
+  };
+}
+
+/**
+ * Handle edit_review_comment tool
+ */
+async function handleEditReviewComment(
+  args: { pr_name: string; comment_id: number; body: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (typeof args.comment_id !== 'number') {
+    return commentIdRequiredResponse();
+  }
+  if (!args.body || typeof args.body !== 'string') {
     return {
-      content: [{ type: 'text', text: `Error fetching pull requests: ${error.message}` }],
-      structuredContent: { error: error.message },
+      content: [{ type: 'text', text: 'Error: body is required' }],
+      structuredContent: { error: 'body is required', success: false },
       isError: true,
     };
   }
+
+  try {
+    const result = await editReviewComment(userId, args.pr_name, args.comment_id, args.body);
+    return {
+      content: [{ type: 'text', text: `Comment updated.\n\nView comment: ${result.url}` }],
+      structuredContent: { success: true, ...result },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error editing review comment', { success: false });
+  }
 }
 
 /**
- * Handle get_pr_context tool
+ * Handle delete_review_comment tool
  */
-async function handleGetPRContext(
-  args: { pr_name: string },
+async function handleDeleteReviewComment(
+  args: { pr_name: string; comment_id: number },
   userId: string
 ): Promise<AppsToolResponse> {
-  // Check authentication first
   if (!isGitHubAuthenticated(userId)) {
-    const authUrl = getGitHubAuthUrl(userId);
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (typeof args.comment_id !== 'number') {
+    return commentIdRequiredResponse();
+  }
+
+  try {
+    const result = await deleteReviewComment(userId, args.pr_name, args.comment_id);
+    const location = result.line !== null ? `${result.path}:${result.line}` : result.path;
     return {
-      content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
-      structuredContent: {
-        authRequired: true,
-        authType: 'github',
-        authUrl,
-      },
-      _meta: {
-        'openai/outputTemplate': 'ui://widget/github-widget.html',
-      },
+      content: [{ type: 'text', text: `Deleted comment ${result.commentId} on ${location}.` }],
+      structuredContent: { success: true, ...result },
       isError: false,
     };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error deleting review comment', { success: false });
   }
+}
 
+/**
+ * Handle dismiss_review tool
+ */
+async function handleDismissReview(
+  args: { pr_name: string; review_id: number; message: string },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
   if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (typeof args.review_id !== 'number' || !args.message) {
     return {
-      content: [{ type: 'text', text: 'Error: pr_name parameter is required (e.g., "owner/repo#123" or "pr-123")' }],
-      structuredContent: { error: 'pr_name parameter is required' },
+      content: [{ type: 'text', text: 'Error: review_id and message are required' }],
+      structuredContent: { error: 'review_id and message are required', success: false },
       isError: true,
     };
   }
 
   try {
-    const context = await getPullRequestContext(userId, args.pr_name);
+    const result = await dismissReview(userId, args.pr_name, args.review_id, args.message);
+    const verdict = result.previousState === 'APPROVED' ? 'approval' : 'change request';
+    return {
+      content: [{ type: 'text', text: `Dismissed your ${verdict}.\n\nView review: ${result.url}` }],
+      structuredContent: { success: true, ...result },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error dismissing review', { success: false });
+  }
+}
 
-    // Build a text summary for the content
-    const filesChangedSummary = context.files.slice(0, 5).map((f) => {
-      const status = f.status === 'added' ? '➕' : f.status === 'removed' ? '➖' : '📝';
-      return `${status} ${f.filename} (+${f.additions}/-${f.deletions})`;
-    }).join('\n');
+// ============================================
+// Pull Request Action Handlers
+// ============================================
 
-    const moreFiles = context.files.length > 5 ? `\n... and ${context.files.length - 5} more files` : '';
+interface MergePullRequestArgs {
+  pr_name: string;
+  merge_method?: MergeMethod;
+  commit_title?: string;
+  commit_message?: string;
+  head_sha: string;
+  allow_failing_checks?: boolean;
+  idempotency_key: string;
+}
 
-    const textSummary = `**${context.pr.title}** (#${context.pr.number})
+/**
+ * Handle merge_pull_request tool
+ */
+async function handleMergePullRequest(args: MergePullRequestArgs, userId: string): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (!args.idempotency_key || typeof args.idempotency_key !== 'string') {
+    return {
+      content: [{ type: 'text', text: 'Error: idempotency_key is required to prevent merging twice' }],
+      structuredContent: { error: 'idempotency_key is required', success: false },
+      isError: true,
+    };
+  }
+  if (args.merge_method !== undefined && !['merge', 'squash', 'rebase'].includes(args.merge_method)) {
+    return {
+      content: [{ type: 'text', text: 'Error: merge_method must be "merge", "squash" or "rebase"' }],
+      structuredContent: { error: 'invalid merge_method', success: false },
+      isError: true,
+    };
+  }
+  if (typeof args.head_sha !== 'string' || !/^[0-9a-f]{40}$/i.test(args.head_sha)) {
+    return {
+      content: [{ type: 'text', text: 'Error: head_sha is required: the full 40-character head commit SHA the user reviewed (pr.headSha from get_pr_context)' }],
+      structuredContent: { error: 'head_sha must be a full commit SHA', success: false },
+      isError: true,
+    };
+  }
 
-**Repository:** ${context.pr.repository.fullName}
-**Author:** @${context.pr.author}
-**State:** ${context.pr.state}
-**Branches:** ${context.headRef} → ${context.baseRef}
+  try {
+    const result = await mergePullRequest(userId, args.pr_name, {
+      method: args.merge_method,
+      commitTitle: args.commit_title,
+      commitMessage: args.commit_message,
+      headSha: args.head_sha,
+      idempotencyKey: args.idempotency_key,
+      allowFailingChecks: args.allow_failing_checks === true,
+    });
+
+    let text: string;
+    if (result.alreadyMerged) {
+      text = `${args.pr_name} was already merged.\n\nView PR: ${result.prUrl}`;
+    } else if (result.merged) {
+      text = `Merged ${args.pr_name} (${result.method}) as ${result.sha?.slice(0, 7)}.\n\nView PR: ${result.prUrl}`;
+      if (result.failingChecks || result.pendingChecks) {
+        text += `\n\n⚠️ Merged with checks not passing: ${[...(result.failingChecks || []), ...(result.pendingChecks || [])].join(', ')}`;
+      }
+    } else {
+      text = `Not merged: ${result.message}`;
+      if (result.headChanged) {
+        const commits = result.headChanged.newCommits
+          .map((c) => `- ${c.sha.slice(0, 7)} ${c.message} (@${c.author})`)
+          .join('\n');
+        if (commits) text += `\n\nNew commits:\n${commits}`;
+      }
+      text += `\n\nView PR: ${result.prUrl}`;
+    }
 
-**Changes:** ${context.changedFiles} files (+${context.additions}/-${context.deletions})
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { success: result.merged, ...result },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error merging pull request', { success: false });
+  }
+}
 
-**Files:**
-${filesChangedSummary}${moreFiles}
+/**
+ * Handle mark_pr_ready_for_review and convert_pr_to_draft tools
+ */
+async function handleSetDraftState(
+  args: { pr_name: string },
+  userId: string,
+  draft: boolean
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
 
-${context.description ? `**Description:**\n${context.description.slice(0, 500)}${context.description.length > 500 ? '...' : ''}` : ''}`;
+  try {
+    const result = await setDraftState(userId, args.pr_name, draft);
+    const state = result.draft ? 'a draft' : 'ready for review';
+    return {
+      content: [{ type: 'text', text: `${result.changed ? 'The PR is now' : 'The PR was already'} ${state}.\n\nView PR: ${result.prUrl}` }],
+      structuredContent: { success: true, ...result },
+      isError: false,
+    };
+  } catch (error) {
+    return toolErrorResponse(error, draft ? 'Error converting PR to draft' : 'Error marking PR ready for review', { success: false });
+  }
+}
+
+/**
+ * Handle update_pr_branch tool
+ */
+async function handleUpdatePRBranch(
+  args: { pr_name: string; method?: BranchUpdateMethod },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (args.method !== undefined && args.method !== 'merge' && args.method !== 'rebase') {
+    return {
+      content: [{ type: 'text', text: 'Error: method must be "merge" or "rebase"' }],
+      structuredContent: { error: 'invalid method', success: false },
+      isError: true,
+    };
+  }
 
+  try {
+    const result = await updatePullRequestBranch(userId, args.pr_name, args.method);
+    let text: string;
+    if (!result.requested) {
+      text = 'The branch is already up to date with its base.';
+    } else {
+      const missing = result.behindBy !== null ? ` (it is ${result.behindBy} commit(s) behind)` : '';
+      text = `Requested an update of the branch by ${result.method === 'rebase' ? 'rebasing onto' : 'merging in'} the base${missing}. GitHub applies it in the background, so the head commit (${result.headSha.slice(0, 7)}) changes shortly; call get_pr_context again for the new head_sha.`;
+    }
     return {
-      content: [{ type: 'text', text: textSummary }],
-      structuredContent: {
-        prContext: context,
-      },
-      _meta: {
-        'openai/outputTemplate': 'ui://widget/github-widget.html',
-      },
+      content: [{ type: 'text', text: `${text}\n\nView PR: ${result.prUrl}` }],
+      structuredContent: { success: true, ...result },
       isError: false,
     };
-  } catch (error: any) {
+  } catch (error) {
+    return toolErrorResponse(error, 'Error updating PR branch', { success: false });
+  }
+}
+
+interface ReviewRequestArgs {
+  pr_name: string;
+  reviewers?: string[];
+  teams?: string[];
+}
+
+/**
+ * Handle request_reviewers and remove_reviewers tools
+ */
+async function handleReviewRequests(
+  args: ReviewRequestArgs,
+  userId: string,
+  action: 'request' | 'remove'
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  const reviewers = args.reviewers || [];
+  const teams = args.teams || [];
+  if (
+    !Array.isArray(reviewers) ||
+    !Array.isArray(teams) ||
+    ![...reviewers, ...teams].every((value) => typeof value === 'string') ||
+    reviewers.length + teams.length === 0
+  ) {
+    return {
+      content: [{ type: 'text', text: 'Error: reviewers or teams must be a non-empty array of names' }],
+      structuredContent: { error: 'reviewers or teams is required', success: false },
+      isError: true,
+    };
+  }
+
+  try {
+    const result = action === 'request'
+      ? await requestReviewers(userId, args.pr_name, { reviewers, teams })
+      : await removeReviewers(userId, args.pr_name, { reviewers, teams });
+
+    const changed = [...result.reviewers.map((r) => `@${r}`), ...result.teams.map((t) => `team ${t}`)].join(', ');
+    const lines = [action === 'request' ? `Requested reviews from ${changed}.` : `Removed review requests for ${changed}.`];
+    if (result.rejected.length > 0) {
+      lines.push('', 'Not changed:', ...result.rejected.map((r) => `- ${r.name}: ${r.reason}`));
+    }
+    const pending = [...result.requestedReviewers.map((r) => `@${r}`), ...result.requestedTeams.map((t) => `team ${t}`)];
+    lines.push('', `Pending review requests: ${pending.join(', ') || 'none'}`, `View PR: ${result.prUrl}`);
+
     return {
-      content: [{ type: 'text', text: `Error fetching PR context: ${error.message}` }],
-      structuredContent: { error: error.message },
-      isError: true,
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { success: true, ...result },
+      isError: false,
     };
+  } catch (error) {
+    return toolErrorResponse(
+      error,
+      action === 'request' ? 'Error requesting reviewers' : 'Error removing reviewers',
+      { success: false }
+    );
   }
 }
 
+// ============================================
+// Triage Handlers
+// ============================================
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function formatRejections(rejected: TriageRejection[]): string[] {
+  if (rejected.length === 0) return [];
+  return [
+    '',
+    'Not changed:',
+    ...rejected.map((r) => {
+      const hint = r.suggestions?.length ? ` (did you mean ${r.suggestions.map((name) => `"${name}"`).join(', ')}?)` : '';
+      return `- ${r.name}: ${r.reason}${hint}`;
+    }),
+  ];
+}
+
 /**
- * Handle post_review_comments tool
+ * Handle add_labels and remove_labels tools
  */
-async function handlePostReviewComments(
-  args: {
-    pr_name: string;
-    comments: ReviewComment[];
-    event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
-    idempotency_key: string;
-  },
-  userId: string
+async function handleUpdateLabels(
+  args: { pr_name: string; labels: string[] },
+  userId: string,
+  action: 'add' | 'remove'
 ): Promise<AppsToolResponse> {
-  // Check authentication first
   if (!isGitHubAuthenticated(userId)) {
-    const authUrl = getGitHubAuthUrl(userId);
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  if (!isStringArray(args.labels) || args.labels.length === 0) {
     return {
-      content: [{ type: 'text', text: 'User needs to connect their GitHub account first.' }],
-      structuredContent: {
-        authRequired: true,
-        authType: 'github',
-        authUrl,
-      },
-      isError: false,
+      content: [{ type: 'text', text: 'Error: labels must be a non-empty array of label names' }],
+      structuredContent: { error: 'labels is required', success: false },
+      isError: true,
     };
   }
 
-  // Validate required parameters
-  if (!args.pr_name || typeof args.pr_name !== 'string') {
+  try {
+    const result = action === 'add'
+      ? await addLabels(userId, args.pr_name, args.labels)
+      : await removeLabels(userId, args.pr_name, args.labels);
+
+    const lines = [
+      result.changed.length === 0
+        ? 'No labels changed.'
+        : `${action === 'add' ? 'Added' : 'Removed'} ${result.changed.map((l) => `"${l}"`).join(', ')}.`,
+      ...result.matched.map((m) => `- "${m.requested}" matched the label "${m.label}"`),
+      ...formatRejections(result.rejected),
+      '',
+      `Labels now: ${result.labels.join(', ') || 'none'}`,
+      `View PR: ${result.prUrl}`,
+    ];
     return {
-      content: [{ type: 'text', text: 'Error: pr_name parameter is required (e.g., "owner/repo#123")' }],
-      structuredContent: { error: 'pr_name parameter is required', success: false },
-      isError: true,
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { success: result.changed.length > 0, ...result },
+      isError: false,
     };
+  } catch (error) {
+    return toolErrorResponse(error, action === 'add' ? 'Error adding labels' : 'Error removing labels', { success: false });
   }
+}
 
-  // Comments can be empty for APPROVE or REQUEST_CHANGES events
-  const comments = args.comments || [];
-  if (!Array.isArray(comments)) {
+/**
+ * Handle update_assignees tool
+ */
+async function handleUpdateAssignees(
+  args: { pr_name: string; add?: string[]; remove?: string[] },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  const add = args.add || [];
+  const remove = args.remove || [];
+  if (!isStringArray(add) || !isStringArray(remove) || add.length + remove.length === 0) {
     return {
-      content: [{ type: 'text', text: 'Error: comments must be an array' }],
-      structuredContent: { error: 'comments must be an array', success: false },
+      content: [{ type: 'text', text: 'Error: add or remove must be a non-empty array of logins' }],
+      structuredContent: { error: 'add or remove is required', success: false },
       isError: true,
     };
   }
 
-  // For COMMENT event, require at least one comment
-  if ((!args.event || args.event === 'COMMENT') && comments.length === 0) {
+  try {
+    const result = await updateAssignees(userId, args.pr_name, { add, remove });
+    const lines = [
+      ...(result.added.length > 0 ? [`Assigned ${result.added.map((a) => `@${a}`).join(', ')}.`] : []),
+      ...(result.removed.length > 0 ? [`Unassigned ${result.removed.map((a) => `@${a}`).join(', ')}.`] : []),
+      ...(result.added.length + result.removed.length === 0 ? ['No assignees changed.'] : []),
+      ...formatRejections(result.rejected),
+      '',
+      `Assignees now: ${result.assignees.map((a) => `@${a}`).join(', ') || 'none'}`,
+      `View PR: ${result.prUrl}`,
+    ];
     return {
-      content: [{ type: 'text', text: 'Error: At least one comment is required for COMMENT event' }],
-      structuredContent: { error: 'comments array is required for COMMENT event', success: false },
-      isError: true,
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { success: result.added.length + result.removed.length > 0, ...result },
+      isError: false,
     };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error updating assignees', { success: false });
   }
+}
 
-  if (!args.idempotency_key || typeof args.idempotency_key !== 'string') {
+/**
+ * Handle set_milestone tool
+ */
+async function handleSetMilestone(
+  args: { pr_name: string; milestone?: string; clear?: boolean },
+  userId: string
+): Promise<AppsToolResponse> {
+  if (!isGitHubAuthenticated(userId)) {
+    return authRequiredResponse(userId);
+  }
+  if (!args.pr_name || typeof args.pr_name !== 'string') {
+    return prNameRequiredResponse();
+  }
+  const title = typeof args.milestone === 'string' ? args.milestone.trim() : '';
+  if (!args.clear && !title) {
     return {
-      content: [{ type: 'text', text: 'Error: idempotency_key is required to prevent duplicate comments' }],
-      structuredContent: { error: 'idempotency_key is required', success: false },
+      content: [{ type: 'text', text: 'Error: milestone is required unless clear is true' }],
+      structuredContent: { error: 'milestone is required', success: false },
       isError: true,
     };
   }
 
   try {
-    const result = await postReviewComments(
+    const numbered = /^#(\d+)$/.exec(title);
+    const result = await setMilestone(
       userId,
       args.pr_name,
-      comments,
-      args.event || 'COMMENT',
-      args.idempotency_key
+      args.clear ? null : numbered ? Number(numbered[1]) : title
     );
-
-    // Build human-readable summary
-    const inlineCount = comments.filter(c => c.path && c.line).length;
-    const generalCount = comments.length - inlineCount;
-
-    let summary = result.message;
-    if (inlineCount > 0 && generalCount > 0) {
-      summary += ` (${inlineCount} inline, ${generalCount} general)`;
-    } else if (inlineCount > 0) {
-      summary += ` (${inlineCount} inline)`;
-    } else if (generalCount > 0) {
-      summary += ` (${generalCount} general)`;
-    }
-
-    const viewLink = result.reviewUrl || result.prUrl;
-    const linkText = result.reviewUrl ? 'View review' : 'View PR';
-    
+    const text = result.milestone
+      ? `Milestone set to "${result.milestone.title}"${result.milestone.dueOn ? ` (due ${result.milestone.dueOn.slice(0, 10)})` : ''}.`
+      : 'Milestone cleared.';
+    const previous = result.previous && result.previous !== result.milestone?.title ? ` It was "${result.previous}".` : '';
     return {
-      content: [{ type: 'text', text: `${summary}\n\n${linkText}: ${viewLink}` }],
-      structuredContent: {
-        success: result.success,
-        reviewId: result.reviewId,
-        prUrl: result.prUrl,
-        reviewUrl: result.reviewUrl,
-        commentsPosted: result.commentsPosted,
-        message: result.message,
-      },
+      content: [{ type: 'text', text: `${text}${previous}\n\nView PR: ${result.prUrl}` }],
+      structuredContent: { success: true, ...result },
       isError: false,
     };
-  } catch (error: any) {
-    return {
-      content: [{ type: 'text', text: `Error posting review: ${error.message}` }],
-      structuredContent: { error: error.message, success: false },
-      isError: true,
-    };
+  } catch (error) {
+    return toolErrorResponse(error, 'Error setting milestone', { success: false });
   }
 }
 
@@ -757,16 +3457,46 @@ export function createMCPServer(): Server {
 
       case 'list_pull_requests':
         return await handleListPullRequests(
-          args as { username?: string; limit?: number; date_from?: string; date_to?: string; repository?: string; filter_type?: 'authored' | 'reviewing' | 'involved' },
+          args as ListPullRequestsArgs,
           userId
         ) as unknown as CallToolResult;
 
       case 'get_pr_context':
         return await handleGetPRContext(
+          args as unknown as GetPRContextArgs,
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'get_file_content':
+        return await handleGetFileContent(
+          args as { pr_name: string; path: string; ref?: 'head' | 'base'; start_line?: number; end_line?: number },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'get_pr_checks':
+        return await handleGetPRChecks(
+          args as { pr_name: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'list_pr_commits':
+        return await handleListPRCommits(
           args as { pr_name: string },
           userId
         ) as unknown as CallToolResult;
 
+      case 'get_commit_diff':
+        return await handleGetCommitDiff(
+          args as unknown as GetCommitDiffArgs,
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'get_pr_discussion':
+        return await handleGetPRDiscussion(
+          args as { pr_name: string; include_resolved?: boolean },
+          userId
+        ) as unknown as CallToolResult;
+
       case 'post_review_comments':
         return await handlePostReviewComments(
           args as {
@@ -774,10 +3504,134 @@ export function createMCPServer(): Server {
             comments: ReviewComment[];
             event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
             idempotency_key: string;
+            on_invalid_comment?: InvalidCommentStrategy;
+            head_sha: string;
+            confirmation_code?: string;
+          },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'start_pending_review':
+        return await handleStartPendingReview(
+          args as { pr_name: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'add_pending_review_comments':
+        return await handleAddPendingReviewComments(
+          args as { pr_name: string; comments: ReviewComment[]; on_invalid_comment?: InvalidCommentStrategy },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'remove_pending_review_comment':
+        return await handleRemovePendingReviewComment(
+          args as { pr_name: string; comment_id: number },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'list_pending_review':
+        return await handleListPendingReview(
+          args as { pr_name: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'submit_pending_review':
+        return await handleSubmitPendingReview(
+          args as {
+            pr_name: string;
+            event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+            body?: string;
+            confirmation_code?: string;
           },
           userId
         ) as unknown as CallToolResult;
 
+      case 'discard_pending_review':
+        return await handleDiscardPendingReview(
+          args as { pr_name: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'reply_to_review_thread':
+        return await handleReplyToReviewThread(
+          args as { pr_name: string; thread_id: string; body: string; resolve?: boolean; idempotency_key: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'resolve_review_thread':
+      case 'unresolve_review_thread':
+        return await handleSetReviewThreadResolved(
+          args as { pr_name: string; thread_id: string },
+          userId,
+          name === 'resolve_review_thread'
+        ) as unknown as CallToolResult;
+
+      case 'edit_review_comment':
+        return await handleEditReviewComment(
+          args as { pr_name: string; comment_id: number; body: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'delete_review_comment':
+        return await handleDeleteReviewComment(
+          args as { pr_name: string; comment_id: number },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'dismiss_review':
+        return await handleDismissReview(
+          args as { pr_name: string; review_id: number; message: string },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'merge_pull_request':
+        return await handleMergePullRequest(
+          args as unknown as MergePullRequestArgs,
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'mark_pr_ready_for_review':
+      case 'convert_pr_to_draft':
+        return await handleSetDraftState(
+          args as { pr_name: string },
+          userId,
+          name === 'convert_pr_to_draft'
+        ) as unknown as CallToolResult;
+
+      case 'update_pr_branch':
+        return await handleUpdatePRBranch(
+          args as { pr_name: string; method?: BranchUpdateMethod },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'request_reviewers':
+      case 'remove_reviewers':
+        return await handleReviewRequests(
+          args as unknown as ReviewRequestArgs,
+          userId,
+          name === 'request_reviewers' ? 'request' : 'remove'
+        ) as unknown as CallToolResult;
+
+      case 'add_labels':
+      case 'remove_labels':
+        return await handleUpdateLabels(
+          args as { pr_name: string; labels: string[] },
+          userId,
+          name === 'add_labels' ? 'add' : 'remove'
+        ) as unknown as CallToolResult;
+
+      case 'update_assignees':
+        return await handleUpdateAssignees(
+          args as { pr_name: string; add?: string[]; remove?: string[] },
+          userId
+        ) as unknown as CallToolResult;
+
+      case 'set_milestone':
+        return await handleSetMilestone(
+          args as { pr_name: string; milestone?: string; clear?: boolean },
+          userId
+        ) as unknown as CallToolResult;
+
       default:
         return {
           content: [{ type: 'text', text: `Unknown tool: ${name}` }],
@@ -879,7 +3733,7 @@ export async function handleMCPRequest(
         protocolVersion,
         serverInfo: SERVER_INFO,
         capabilities: SERVER_CAPABILITIES,
-        instructions: 'This server helps review GitHub Pull Requests. Use list_pull_requests to see PRs, get_pr_context to get PR details for review, and post_review_comments to submit reviews.',
+        instructions: 'This server helps review GitHub Pull Requests. Use list_pull_requests to see PRs, get_pr_context to get PR details for review, get_file_content to read code around the diff, post_review_comments to submit a review in one call, or the pending review tools (start_pending_review, add_pending_review_comments, submit_pending_review) to build one over several turns. Only call merge_pull_request when the user explicitly asks to merge.',
       };
 
       console.log('MCP initialize response:', JSON.stringify(response));
@@ -929,16 +3783,46 @@ export async function handleMCPRequest(
 
         case 'list_pull_requests':
           return await handleListPullRequests(
-            args as { username?: string; limit?: number; date_from?: string; date_to?: string; repository?: string; filter_type?: 'authored' | 'reviewing' | 'involved' },
+            args as ListPullRequestsArgs,
             toolUserId
           );
 
         case 'get_pr_context':
           return await handleGetPRContext(
+            args as unknown as GetPRContextArgs,
+            toolUserId
+          );
+
+        case 'get_file_content':
+          return await handleGetFileContent(
+            args as { pr_name: string; path: string; ref?: 'head' | 'base'; start_line?: number; end_line?: number },
+            toolUserId
+          );
+
+        case 'get_pr_checks':
+          return await handleGetPRChecks(
+            args as { pr_name: string },
+            toolUserId
+          );
+
+        case 'list_pr_commits':
+          return await handleListPRCommits(
             args as { pr_name: string },
             toolUserId
           );
 
+        case 'get_commit_diff':
+          return await handleGetCommitDiff(
+            args as unknown as GetCommitDiffArgs,
+            toolUserId
+          );
+
+        case 'get_pr_discussion':
+          return await handleGetPRDiscussion(
+            args as { pr_name: string; include_resolved?: boolean },
+            toolUserId
+          );
+
         case 'post_review_comments':
           return await handlePostReviewComments(
             args as {
@@ -946,10 +3830,134 @@ export async function handleMCPRequest(
               comments: ReviewComment[];
               event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
               idempotency_key: string;
+              on_invalid_comment?: InvalidCommentStrategy;
+              head_sha: string;
+              confirmation_code?: string;
+            },
+            toolUserId
+          );
+
+        case 'start_pending_review':
+          return await handleStartPendingReview(
+            args as { pr_name: string },
+            toolUserId
+          );
+
+        case 'add_pending_review_comments':
+          return await handleAddPendingReviewComments(
+            args as { pr_name: string; comments: ReviewComment[]; on_invalid_comment?: InvalidCommentStrategy },
+            toolUserId
+          );
+
+        case 'remove_pending_review_comment':
+          return await handleRemovePendingReviewComment(
+            args as { pr_name: string; comment_id: number },
+            toolUserId
+          );
+
+        case 'list_pending_review':
+          return await handleListPendingReview(
+            args as { pr_name: string },
+            toolUserId
+          );
+
+        case 'submit_pending_review':
+          return await handleSubmitPendingReview(
+            args as {
+              pr_name: string;
+              event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+              body?: string;
+              confirmation_code?: string;
             },
             toolUserId
           );
 
+        case 'discard_pending_review':
+          return await handleDiscardPendingReview(
+            args as { pr_name: string },
+            toolUserId
+          );
+
+        case 'reply_to_review_thread':
+          return await handleReplyToReviewThread(
+            args as { pr_name: string; thread_id: string; body: string; resolve?: boolean; idempotency_key: string },
+            toolUserId
+          );
+
+        case 'resolve_review_thread':
+        case 'unresolve_review_thread':
+          return await handleSetReviewThreadResolved(
+            args as { pr_name: string; thread_id: string },
+            toolUserId,
+            name === 'resolve_review_thread'
+          );
+
+        case 'edit_review_comment':
+          return await handleEditReviewComment(
+            args as { pr_name: string; comment_id: number; body: string },
+            toolUserId
+          );
+
+        case 'delete_review_comment':
+          return await handleDeleteReviewComment(
+            args as { pr_name: string; comment_id: number },
+            toolUserId
+          );
+
+        case 'dismiss_review':
+          return await handleDismissReview(
+            args as { pr_name: string; review_id: number; message: string },
+            toolUserId
+          );
+
+        case 'merge_pull_request':
+          return await handleMergePullRequest(
+            args as unknown as MergePullRequestArgs,
+            toolUserId
+          );
+
+        case 'mark_pr_ready_for_review':
+        case 'convert_pr_to_draft':
+          return await handleSetDraftState(
+            args as { pr_name: string },
+            toolUserId,
+            name === 'convert_pr_to_draft'
+          );
+
+        case 'update_pr_branch':
+          return await handleUpdatePRBranch(
+            args as { pr_name: string; method?: BranchUpdateMethod },
+            toolUserId
+          );
+
+        case 'request_reviewers':
+        case 'remove_reviewers':
+          return await handleReviewRequests(
+            args as unknown as ReviewRequestArgs,
+            toolUserId,
+            name === 'request_reviewers' ? 'request' : 'remove'
+          );
+
+        case 'add_labels':
+        case 'remove_labels':
+          return await handleUpdateLabels(
+            args as { pr_name: string; labels: string[] },
+            toolUserId,
+            name === 'add_labels' ? 'add' : 'remove'
+          );
+
+        case 'update_assignees':
+          return await handleUpdateAssignees(
+            args as { pr_name: string; add?: string[]; remove?: string[] },
+            toolUserId
+          );
+
+        case 'set_milestone':
+          return await handleSetMilestone(
+            args as { pr_name: string; milestone?: string; clear?: boolean },
+            toolUserId
+          );
+
         default:
           return {
             content: [{ type: 'text', text: `Unknown tool: ${name}` }],
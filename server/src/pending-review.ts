@@ -0,0 +1,374 @@
+/**
+ * Pending Reviews
+ * Draft reviews that collect comments over several tool calls and are
+ * submitted (or discarded) as one review. State lives on GitHub: a user has
+ * at most one pending review per PR, and only that user can see it.
+ */
+
+import { githubGraphQL, githubPaginate, githubRequest } from './github-client.js';
+import {
+  describeHeadChange,
+  loadPullRequestContext,
+  requireGitHubSession,
+  resolvePRIdentifier,
+  type ParsedPRIdentifier,
+} from './github-api.js';
+import { validateReviewComments } from './review-validation.js';
+import { enforceReviewPolicy, type ReviewPolicyClearance } from './review-policy.js';
+import type {
+  CommentValidationResult,
+  InvalidCommentStrategy,
+  PendingReview,
+  PendingReviewComment,
+  ReviewComment,
+  StaleReviewInfo,
+  SubmitPendingReviewResponse,
+} from './types.js';
+
+const REVIEWS_MAX = 1000;
+const REVIEW_COMMENTS_MAX = 1000;
+
+interface GitHubReview {
+  id: number;
+  node_id: string;
+  state: string;
+  body: string | null;
+  html_url: string;
+  commit_id: string | null;
+}
+
+interface GitHubReviewCommentData {
+  id: number;
+  path: string;
+  line: number | null;
+  start_line: number | null;
+  side: 'LEFT' | 'RIGHT' | null;
+  body: string;
+}
+
+interface PendingReviewTarget {
+  accessToken: string;
+  username?: string;
+  identifier: ParsedPRIdentifier;
+  repoPath: string;  // "/repos/{owner}/{repo}"
+}
+
+async function resolveTarget(userId: string, prName: string): Promise<PendingReviewTarget> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const identifier = await resolvePRIdentifier(accessToken, prName, username);
+  return { accessToken, username, identifier, repoPath: `/repos/${identifier.owner}/${identifier.repo}` };
+}
+
+function prUrlOf({ owner, repo, prNumber }: ParsedPRIdentifier): string {
+  return `https://github.com/${owner}/${repo}/pull/${prNumber}`;
+}
+
+/**
+ * The user's pending review on a PR, if any. GitHub only returns a pending
+ * review to its author, so no login check is needed.
+ */
+async function findPendingReview(target: PendingReviewTarget): Promise<GitHubReview | undefined> {
+  const reviews = await githubPaginate<GitHubReview>(
+    target.accessToken,
+    `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews?per_page=100`,
+    REVIEWS_MAX
+  );
+  return reviews.find((review) => review.state === 'PENDING');
+}
+
+async function requirePendingReview(target: PendingReviewTarget): Promise<GitHubReview> {
+  const review = await findPendingReview(target);
+  if (!review) {
+    throw new Error(
+      `You have no pending review on ${target.identifier.owner}/${target.identifier.repo}#${target.identifier.prNumber}. Start one with start_pending_review.`
+    );
+  }
+  return review;
+}
+
+async function createPendingReview(target: PendingReviewTarget, commitSha: string): Promise<GitHubReview> {
+  console.log(`[PendingReview] Starting pending review on ${target.repoPath}#${target.identifier.prNumber}`);
+  // Omitting "event" leaves the review in the PENDING state
+  return githubRequest<GitHubReview>(
+    target.accessToken,
+    `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ commit_id: commitSha }),
+    }
+  );
+}
+
+async function fetchPendingComments(target: PendingReviewTarget, reviewId: number): Promise<PendingReviewComment[]> {
+  const comments = await githubPaginate<GitHubReviewCommentData>(
+    target.accessToken,
+    `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews/${reviewId}/comments?per_page=100`,
+    REVIEW_COMMENTS_MAX
+  );
+  return comments.map((comment) => ({
+    id: comment.id,
+    path: comment.path,
+    line: comment.line,
+    startLine: comment.start_line,
+    side: comment.side || 'RIGHT',
+    body: comment.body,
+  }));
+}
+
+async function toPendingReview(target: PendingReviewTarget, review: GitHubReview): Promise<PendingReview> {
+  return {
+    reviewId: review.id,
+    prUrl: prUrlOf(target.identifier),
+    body: review.body || '',
+    comments: await fetchPendingComments(target, review.id),
+  };
+}
+
+// ============================================
+// Pending Review Operations
+// ============================================
+
+/**
+ * Start a pending review, or return the one already in progress
+ */
+export async function startPendingReview(
+  userId: string,
+  prName: string
+): Promise<{ review: PendingReview; created: boolean }> {
+  const target = await resolveTarget(userId, prName);
+  const existing = await findPendingReview(target);
+  if (existing) {
+    return { review: await toPendingReview(target, existing), created: false };
+  }
+
+  const context = await loadPullRequestContext(userId, target.accessToken, target.identifier);
+  const review = await createPendingReview(target, context.pr.headSha);
+  return { review: await toPendingReview(target, review), created: true };
+}
+
+const ADD_REVIEW_THREAD_MUTATION = `
+  mutation($input: AddPullRequestReviewThreadInput!) {
+    addPullRequestReviewThread(input: $input) {
+      thread { id }
+    }
+  }
+`;
+
+/**
+ * Validate comments against the diff and add them to the user's pending
+ * review (starting one if needed). Inline comments become draft threads;
+ * general comments and comments moved out of the diff go into the review
+ * body. Comments identical to an existing draft are skipped, so retries
+ * don't duplicate them. Nothing is added if the PR head has moved past the
+ * commit the pending review was started on: staleReview says what changed.
+ */
+export async function addPendingReviewComments(
+  userId: string,
+  prName: string,
+  comments: ReviewComment[],
+  onInvalidComment: InvalidCommentStrategy = 'snap'
+): Promise<{ review: PendingReview; commentResults: CommentValidationResult[]; staleReview?: StaleReviewInfo }> {
+  const target = await resolveTarget(userId, prName);
+  const context = await loadPullRequestContext(userId, target.accessToken, target.identifier);
+  const review = (await findPendingReview(target)) || (await createPendingReview(target, context.pr.headSha));
+
+  // Comments are validated against the current diff, so they'd land on the
+  // wrong lines of a draft pinned to an older commit
+  if (review.commit_id) {
+    const staleReview = await describeHeadChange(
+      target.accessToken,
+      target.identifier.owner,
+      target.identifier.repo,
+      review.commit_id,
+      context.pr.headSha
+    );
+    if (staleReview) {
+      console.log(`[PendingReview] PR head moved from ${review.commit_id} to ${context.pr.headSha}, not adding comments`);
+      return { review: await toPendingReview(target, review), commentResults: [], staleReview };
+    }
+  }
+
+  const existing = await fetchPendingComments(target, review.id);
+
+  const { inlineComments, reviewBody, results } = validateReviewComments(comments, context, onInvalidComment);
+
+  // Results for placed comments are in the same order as inlineComments
+  const placedResults = results.filter((r) => r.status === 'inline' || r.status === 'snapped');
+
+  for (const [i, comment] of inlineComments.entries()) {
+    const result = placedResults[i];
+    const duplicate = existing.find(
+      (c) =>
+        c.path === comment.path &&
+        c.line === comment.line &&
+        c.side === comment.side &&
+        c.body.trim() === comment.body.trim()
+    );
+    if (duplicate) {
+      result.status = 'duplicate';
+      result.error = `An identical draft comment already exists (id ${duplicate.id}).`;
+      continue;
+    }
+
+    try {
+      await githubGraphQL(target.accessToken, ADD_REVIEW_THREAD_MUTATION, {
+        input: {
+          pullRequestReviewId: review.node_id,
+          path: comment.path,
+          line: comment.line,
+          side: comment.side,
+          startLine: comment.start_line,
+          startSide: comment.start_side,
+          body: comment.body,
+        },
+      });
+    } catch (error) {
+      // One failed thread shouldn't lose the rest of the batch
+      result.status = 'rejected';
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  let body = review.body || '';
+  if (reviewBody && !body.includes(reviewBody)) {
+    body = body ? `${body}\n\n${reviewBody}` : reviewBody;
+    await githubRequest(
+      target.accessToken,
+      `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews/${review.id}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body }),
+      }
+    );
+  }
+
+  console.log(`[PendingReview] Added comments to review ${review.id} on ${target.repoPath}#${target.identifier.prNumber}`);
+
+  return {
+    review: await toPendingReview(target, { ...review, body }),
+    commentResults: results,
+  };
+}
+
+/**
+ * Delete one draft comment from the user's pending review
+ */
+export async function removePendingReviewComment(
+  userId: string,
+  prName: string,
+  commentId: number
+): Promise<PendingReview> {
+  const target = await resolveTarget(userId, prName);
+  const review = await requirePendingReview(target);
+  const comments = await fetchPendingComments(target, review.id);
+
+  if (!comments.some((comment) => comment.id === commentId)) {
+    throw new Error(`Comment ${commentId} is not in your pending review. Use list_pending_review to see draft comment ids.`);
+  }
+
+  await githubRequest(target.accessToken, `${target.repoPath}/pulls/comments/${commentId}`, {
+    method: 'DELETE',
+  });
+
+  return {
+    reviewId: review.id,
+    prUrl: prUrlOf(target.identifier),
+    body: review.body || '',
+    comments: comments.filter((comment) => comment.id !== commentId),
+  };
+}
+
+/**
+ * The user's pending review with its draft comments, or null if none
+ */
+export async function getPendingReview(userId: string, prName: string): Promise<PendingReview | null> {
+  const target = await resolveTarget(userId, prName);
+  const review = await findPendingReview(target);
+  return review ? toPendingReview(target, review) : null;
+}
+
+/**
+ * Submit the user's pending review with the chosen event. Approvals and
+ * change requests go through the review policy first.
+ */
+export async function submitPendingReview(
+  userId: string,
+  prName: string,
+  event: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES',
+  body?: string,
+  confirmationCode?: string
+): Promise<SubmitPendingReviewResponse> {
+  const target = await resolveTarget(userId, prName);
+  const review = await requirePendingReview(target);
+  const comments = await fetchPendingComments(target, review.id);
+  const fullBody = [review.body, body].filter((part) => part && part.trim()).join('\n\n');
+
+  let policyClearance: ReviewPolicyClearance | undefined;
+  if (event !== 'COMMENT') {
+    const pr = await githubRequest<{ user: { login: string }; head: { sha: string } }>(
+      target.accessToken,
+      `${target.repoPath}/pulls/${target.identifier.prNumber}`
+    );
+    policyClearance = await enforceReviewPolicy({
+      userId,
+      accessToken: target.accessToken,
+      username: target.username,
+      identifier: target.identifier,
+      author: pr.user.login,
+      headSha: pr.head.sha,
+      event,
+      inlineComments: comments.length,
+      content: JSON.stringify({
+        body: fullBody,
+        comments: comments.map((comment) => ({ path: comment.path, line: comment.line, body: comment.body })),
+      }),
+      confirmationCode,
+    });
+  }
+
+  const submitted = await githubRequest<GitHubReview>(
+    target.accessToken,
+    `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews/${review.id}/events`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event, body: fullBody || undefined }),
+    }
+  );
+
+  policyClearance?.markSubmitted();
+  console.log(`[PendingReview] Submitted review ${review.id} (${event}) with ${comments.length} comment(s)`);
+
+  const prUrl = prUrlOf(target.identifier);
+  return {
+    reviewId: submitted.id,
+    prUrl,
+    reviewUrl: submitted.html_url || `${prUrl}#pullrequestreview-${submitted.id}`,
+    state: submitted.state,
+    commentsSubmitted: comments.length,
+  };
+}
+
+/**
+ * Delete the user's pending review and all of its draft comments
+ */
+export async function discardPendingReview(
+  userId: string,
+  prName: string
+): Promise<{ reviewId: number; prUrl: string; commentsDiscarded: number }> {
+  const target = await resolveTarget(userId, prName);
+  const review = await requirePendingReview(target);
+  const comments = await fetchPendingComments(target, review.id);
+
+  await githubRequest(
+    target.accessToken,
+    `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews/${review.id}`,
+    { method: 'DELETE' }
+  );
+
+  console.log(`[PendingReview] Discarded review ${review.id} (${comments.length} comment(s))`);
+
+  return { reviewId: review.id, prUrl: prUrlOf(target.identifier), commentsDiscarded: comments.length };
+}
@@ -0,0 +1,312 @@
+/**
+ * PR Actions
+ * State-changing operations on a pull request itself: merging, draft and
+ * ready-for-review transitions, and updating the branch from its base.
+ * Each one checks the PR's state first and refuses with a reason instead of
+ * letting GitHub fail halfway.
+ */
+
+import { GitHubApiError, githubGraphQL, githubRequest } from './github-client.js';
+import { describeHeadChange, requireGitHubSession, resolvePRIdentifier } from './github-api.js';
+import { idempotencyService } from './idempotency-service.js';
+import { fetchPullRequestChecks } from './pr-checks.js';
+import type {
+  BranchUpdateMethod,
+  BranchUpdateResult,
+  DraftStateResult,
+  MergeMethod,
+  MergePullRequestResult,
+} from './types.js';
+
+const MERGEABILITY_RETRIES = 3;
+const MERGEABILITY_RETRY_MS = 1500;
+
+interface GitHubPullStateData {
+  node_id: string;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  merge_commit_sha: string | null;
+  draft?: boolean;
+  mergeable: boolean | null;
+  mergeable_state: string;
+  head: { sha: string };
+  base: { ref: string; sha: string };
+}
+
+/**
+ * Fetch the PR, waiting for GitHub to finish computing mergeability. It is
+ * computed in the background after each push, and reported as null until then.
+ */
+async function fetchMergeState(accessToken: string, pullPath: string): Promise<GitHubPullStateData> {
+  let pr = await githubRequest<GitHubPullStateData>(accessToken, pullPath);
+  for (let attempt = 0; attempt < MERGEABILITY_RETRIES && pr.state === 'open' && pr.mergeable === null; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, MERGEABILITY_RETRY_MS));
+    pr = await githubRequest<GitHubPullStateData>(accessToken, pullPath);
+  }
+  return pr;
+}
+
+/**
+ * GitHub's own explanation from an error response body, if it has one
+ */
+function githubErrorMessage(error: GitHubApiError): string {
+  try {
+    const parsed = JSON.parse(error.body) as { message?: string };
+    if (parsed.message) return parsed.message;
+  } catch {
+    // Not JSON
+  }
+  return `HTTP ${error.status}`;
+}
+
+// ============================================
+// Merge
+// ============================================
+
+/**
+ * Merge a pull request. Before merging, refuses drafts, conflicts, branches
+ * blocked by protection rules or behind their base, failing or pending checks
+ * (unless allowFailingChecks is set), and a head that moved past headSha.
+ * The head commit that was checked is sent as `sha`, so a push that lands in
+ * between makes GitHub reject the merge instead of merging unreviewed code.
+ * A retried call with the same idempotency key returns the first result.
+ */
+export async function mergePullRequest(
+  userId: string,
+  prName: string,
+  options: {
+    method?: MergeMethod;
+    commitTitle?: string;
+    commitMessage?: string;
+    headSha: string;  // Full SHA of the head the user reviewed; GitHub merges only that commit
+    idempotencyKey: string;
+    allowFailingChecks?: boolean;
+  }
+): Promise<MergePullRequestResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const method = options.method || 'merge';
+
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+
+  // Keyed on the resolved PR, so "pr-123" and "owner/repo#123" share a key, and per user
+  const idempKey = `idempotency:merge:key:${userId}:${`${owner}/${repo}#${prNumber}`.toLowerCase()}:${options.idempotencyKey}`;
+  const cached = idempotencyService.getResult<MergePullRequestResult>(idempKey);
+  if (cached) {
+    console.log(`[Idempotency] Returning cached merge result for ${idempKey}`);
+    return cached;
+  }
+
+  const pullPath = `/repos/${owner}/${repo}/pulls/${prNumber}`;
+  const pr = await fetchMergeState(accessToken, pullPath);
+
+  const refuse = (
+    blockedReason: NonNullable<MergePullRequestResult['blockedReason']>,
+    message: string,
+    extra: Partial<MergePullRequestResult> = {}
+  ): MergePullRequestResult => {
+    console.log(`[PRActions] Not merging ${owner}/${repo}#${prNumber}: ${blockedReason}`);
+    return { merged: false, prUrl: pr.html_url, method, blockedReason, mergeableState: pr.mergeable_state, message, ...extra };
+  };
+
+  if (pr.merged) {
+    return {
+      merged: true,
+      alreadyMerged: true,
+      prUrl: pr.html_url,
+      method,
+      sha: pr.merge_commit_sha || undefined,
+      message: 'The pull request was already merged.',
+    };
+  }
+  if (pr.state === 'closed') {
+    return refuse('closed', 'The pull request is closed without being merged. Reopen it before merging.');
+  }
+  if (pr.draft) {
+    return refuse('draft', 'The pull request is a draft. Mark it ready for review (mark_pr_ready_for_review) before merging.');
+  }
+
+  const headChanged = await describeHeadChange(accessToken, owner, repo, options.headSha, pr.head.sha);
+  if (headChanged) {
+    return refuse(
+      'head_changed',
+      `The PR head moved from ${options.headSha.slice(0, 7)} to ${pr.head.sha.slice(0, 7)} since it was reviewed. Review the new commits before merging.`,
+      { headChanged }
+    );
+  }
+
+  if (pr.mergeable === null) {
+    return refuse('mergeability_unknown', 'GitHub is still checking whether the pull request can be merged. Try again in a few seconds.');
+  }
+  if (pr.mergeable === false || pr.mergeable_state === 'dirty') {
+    return refuse('conflicts', `The pull request has merge conflicts with ${pr.base.ref}. Resolve them before merging.`);
+  }
+  if (pr.mergeable_state === 'behind') {
+    return refuse('behind', `The branch is behind ${pr.base.ref}, and branch protection requires it to be up to date. Update the branch (update_pr_branch) before merging.`);
+  }
+
+  const checks = await fetchPullRequestChecks(accessToken, owner, repo, pr.head.sha);
+  const failingChecks = checks.checks.filter((check) => check.state === 'failure').map((check) => check.name);
+  const pendingChecks = checks.checks.filter((check) => check.state === 'pending').map((check) => check.name);
+
+  if (pr.mergeable_state === 'blocked') {
+    // Required checks and reviews can't be overridden from here
+    const unmet = failingChecks.length + pendingChecks.length > 0
+      ? ` Failing: ${failingChecks.join(', ') || 'none'}. Pending: ${pendingChecks.join(', ') || 'none'}.`
+      : ' Required reviews are probably missing.';
+    return refuse('blocked', `Branch protection blocks merging ${pr.base.ref}.${unmet}`, { failingChecks, pendingChecks });
+  }
+  if (!options.allowFailingChecks) {
+    if (failingChecks.length > 0) {
+      return refuse(
+        'checks_failing',
+        `${failingChecks.length} check(s) failing: ${failingChecks.join(', ')}. Fix them, or pass allow_failing_checks if they are known to be unrelated.`,
+        { failingChecks, pendingChecks }
+      );
+    }
+    if (pendingChecks.length > 0) {
+      return refuse(
+        'checks_pending',
+        `${pendingChecks.length} check(s) still running: ${pendingChecks.join(', ')}. Wait for them to finish, or pass allow_failing_checks.`,
+        { failingChecks, pendingChecks }
+      );
+    }
+  }
+
+  console.log(`[PRActions] Merging ${owner}/${repo}#${prNumber} at ${pr.head.sha.slice(0, 7)} with ${method}`);
+
+  let merge: { sha: string; merged: boolean; message: string };
+  try {
+    merge = await githubRequest(accessToken, `${pullPath}/merge`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        merge_method: method,
+        commit_title: options.commitTitle,
+        commit_message: options.commitMessage,
+        // The reviewed commit, so a push after the checks above still stops the merge
+        sha: options.headSha,
+      }),
+    });
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 409) {
+      return refuse('head_changed', `GitHub rejected the merge because the PR head changed: ${githubErrorMessage(error)}`);
+    }
+    if (error instanceof GitHubApiError && (error.status === 405 || error.status === 422)) {
+      // e.g. the merge method is disabled for the repository
+      return refuse('not_allowed', `GitHub refused the merge: ${githubErrorMessage(error)}`, { failingChecks, pendingChecks });
+    }
+    throw error;
+  }
+
+  const result: MergePullRequestResult = {
+    merged: merge.merged,
+    prUrl: pr.html_url,
+    method,
+    sha: merge.sha,
+    message: merge.message,
+    failingChecks: failingChecks.length > 0 ? failingChecks : undefined,
+    pendingChecks: pendingChecks.length > 0 ? pendingChecks : undefined,
+  };
+  // Refusals aren't cached, so the same key works once the blocker is fixed
+  idempotencyService.markProcessed(idempKey, result);
+  return result;
+}
+
+// ============================================
+// Draft State
+// ============================================
+
+/**
+ * Mark a draft PR ready for review, or convert an open PR back to a draft.
+ * REST can't change draft state, so this goes through GraphQL.
+ */
+export async function setDraftState(userId: string, prName: string, draft: boolean): Promise<DraftStateResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const pr = await githubRequest<GitHubPullStateData>(accessToken, `/repos/${owner}/${repo}/pulls/${prNumber}`);
+
+  if (pr.state !== 'open') {
+    throw new Error(`${owner}/${repo}#${prNumber} is ${pr.merged ? 'merged' : 'closed'}; only open pull requests can change draft state.`);
+  }
+  if (Boolean(pr.draft) === draft) {
+    return { prUrl: pr.html_url, draft, changed: false };
+  }
+
+  console.log(`[PRActions] ${draft ? 'Converting' : 'Marking'} ${owner}/${repo}#${prNumber} ${draft ? 'to draft' : 'ready for review'}`);
+
+  const mutation = draft
+    ? `mutation($id: ID!) { convertPullRequestToDraft(input: { pullRequestId: $id }) { pullRequest { isDraft } } }`
+    : `mutation($id: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $id }) { pullRequest { isDraft } } }`;
+  const data = await githubGraphQL<Record<string, { pullRequest: { isDraft: boolean } }>>(
+    accessToken,
+    mutation,
+    { id: pr.node_id }
+  );
+  return { prUrl: pr.html_url, draft: Object.values(data)[0].pullRequest.isDraft, changed: true };
+}
+
+// ============================================
+// Branch Update
+// ============================================
+
+/**
+ * Bring the PR branch up to date with its base, by merging the base in or
+ * rebasing onto it. The current head is passed as the expected head, so a
+ * push that lands in between makes GitHub refuse instead of overwriting it.
+ * GitHub applies the update in the background; the new head isn't known yet.
+ */
+export async function updatePullRequestBranch(
+  userId: string,
+  prName: string,
+  method: BranchUpdateMethod = 'merge'
+): Promise<BranchUpdateResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const repoPath = `/repos/${owner}/${repo}`;
+  const pr = await githubRequest<GitHubPullStateData>(accessToken, `${repoPath}/pulls/${prNumber}`);
+
+  if (pr.state !== 'open') {
+    throw new Error(`${owner}/${repo}#${prNumber} is ${pr.merged ? 'merged' : 'closed'}; only open pull requests can be updated.`);
+  }
+
+  // Against the base branch itself: pr.base.sha can lag behind it
+  let behindBy: number | null = null;
+  try {
+    const comparison = await githubRequest<{ behind_by: number }>(
+      accessToken,
+      `${repoPath}/compare/${pr.base.ref}...${pr.head.sha}`
+    );
+    behindBy = comparison.behind_by;
+  } catch (error) {
+    // Heads on forks GitHub can't compare from here; let the update decide
+    if (!(error instanceof GitHubApiError && (error.status === 404 || error.status === 422))) throw error;
+  }
+
+  const result = { prUrl: pr.html_url, method, behindBy, headSha: pr.head.sha };
+  if (behindBy === 0) {
+    return { ...result, requested: false };
+  }
+
+  console.log(`[PRActions] Requesting update of ${owner}/${repo}#${prNumber} from ${pr.base.ref} with ${method}`);
+
+  try {
+    await githubGraphQL<{ updatePullRequestBranch: { pullRequest: { id: string } } }>(
+      accessToken,
+      `mutation($id: ID!, $expected: GitObjectID!, $method: PullRequestBranchUpdateMethod!) {
+        updatePullRequestBranch(input: { pullRequestId: $id, expectedHeadOid: $expected, updateMethod: $method }) {
+          pullRequest { id }
+        }
+      }`,
+      { id: pr.node_id, expected: pr.head.sha, method: method.toUpperCase() }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/conflict/i.test(message)) {
+      throw new Error(`The branch can't be updated automatically because ${pr.base.ref} conflicts with it. Resolve the conflicts locally.`);
+    }
+    throw error;
+  }
+
+  return { ...result, requested: true };
+}
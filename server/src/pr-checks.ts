@@ -0,0 +1,241 @@
+/**
+ * PR Checks
+ * CI results for a PR's head commit: legacy commit statuses and check runs
+ * combined into one list, with annotations for failed runs.
+ */
+
+import { githubPaginate, githubRequest } from './github-client.js';
+import { requireGitHubSession, resolvePRIdentifier } from './github-api.js';
+import type {
+  CheckAnnotation,
+  CheckState,
+  CheckSummary,
+  PullRequestChecks,
+} from './types.js';
+
+const CHECK_RUNS_MAX = 1000;
+const CHECK_RUNS_PER_PAGE = 100;
+const ANNOTATED_RUNS_MAX = 10;  // Failed runs whose annotations are fetched
+const ANNOTATIONS_PER_RUN = 50;
+
+interface GitHubCheckRun {
+  id: number;
+  name: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'waiting' | 'requested' | 'pending';
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  details_url: string | null;
+  html_url: string | null;
+  app: { name: string } | null;
+  output: { annotations_count: number };
+}
+
+interface GitHubCommitStatus {
+  context: string;
+  state: 'success' | 'failure' | 'error' | 'pending';
+  target_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GitHubAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: CheckAnnotation['level'];
+  title: string | null;
+  message: string;
+}
+
+function checkRunState(run: GitHubCheckRun): CheckState {
+  if (run.status !== 'completed') return 'pending';
+  switch (run.conclusion) {
+    case 'success':
+      return 'success';
+    case 'neutral':
+    case 'stale':
+      return 'neutral';
+    case 'skipped':
+      return 'skipped';
+    default:
+      // failure, cancelled, timed_out, action_required, startup_failure
+      return 'failure';
+  }
+}
+
+function statusState(status: GitHubCommitStatus): CheckState {
+  if (status.state === 'error') return 'failure';
+  return status.state;
+}
+
+function durationSeconds(startedAt: string | null, completedAt: string | null): number | null {
+  if (!startedAt || !completedAt) return null;
+  return Math.max(0, Math.round((Date.parse(completedAt) - Date.parse(startedAt)) / 1000));
+}
+
+const STATE_ORDER: Record<CheckState, number> = {
+  failure: 0,
+  pending: 1,
+  success: 2,
+  neutral: 3,
+  skipped: 4,
+};
+
+/**
+ * All check runs on a commit, up to CHECK_RUNS_MAX. The list is wrapped in an
+ * object with total_count, so it's paged here rather than with githubPaginate.
+ */
+async function fetchCheckRuns(
+  accessToken: string,
+  repoPath: string,
+  headSha: string
+): Promise<{ runs: GitHubCheckRun[]; totalCount: number }> {
+  const runs: GitHubCheckRun[] = [];
+  let totalCount = 0;
+  for (let page = 1; runs.length < CHECK_RUNS_MAX; page++) {
+    const data = await githubRequest<{ total_count: number; check_runs: GitHubCheckRun[] }>(
+      accessToken,
+      `${repoPath}/commits/${headSha}/check-runs?per_page=${CHECK_RUNS_PER_PAGE}&page=${page}`
+    );
+    runs.push(...data.check_runs);
+    totalCount = data.total_count;
+    if (data.check_runs.length < CHECK_RUNS_PER_PAGE || runs.length >= totalCount) break;
+  }
+  return { runs: runs.slice(0, CHECK_RUNS_MAX), totalCount };
+}
+
+/**
+ * Fetch CI results for a commit
+ */
+export async function fetchPullRequestChecks(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  headSha: string
+): Promise<PullRequestChecks> {
+  const repoPath = `/repos/${owner}/${repo}`;
+
+  console.log(`[GitHub] Fetching checks for ${owner}/${repo}@${headSha.slice(0, 7)}`);
+
+  const [runsData, combined] = await Promise.all([
+    fetchCheckRuns(accessToken, repoPath, headSha),
+    githubRequest<{ total_count: number; statuses: GitHubCommitStatus[] }>(
+      accessToken,
+      `${repoPath}/commits/${headSha}/status?per_page=100`
+    ),
+  ]);
+
+  const runChecks = runsData.runs.map((run): CheckSummary => ({
+    name: run.name,
+    source: 'check_run',
+    state: checkRunState(run),
+    conclusion: run.status === 'completed' ? run.conclusion : run.status,
+    app: run.app?.name || null,
+    startedAt: run.started_at,
+    completedAt: run.completed_at,
+    durationSeconds: durationSeconds(run.started_at, run.completed_at),
+    detailsUrl: run.details_url || run.html_url,
+  }));
+
+  // The combined status already keeps only the latest status per context
+  const statusChecks = combined.statuses.map((status): CheckSummary => ({
+    name: status.context,
+    source: 'status',
+    state: statusState(status),
+    conclusion: status.state,
+    app: null,
+    startedAt: status.created_at,
+    completedAt: status.state === 'pending' ? null : status.updated_at,
+    durationSeconds: status.state === 'pending' ? null : durationSeconds(status.created_at, status.updated_at),
+    detailsUrl: status.target_url,
+  }));
+
+  // Annotations point at files and lines, so failures can turn into review comments
+  const failedRuns = runsData.runs
+    .map((run, index) => ({ run, check: runChecks[index] }))
+    .filter(({ run, check }) => check.state === 'failure' && run.output.annotations_count > 0)
+    .slice(0, ANNOTATED_RUNS_MAX);
+  await Promise.all(
+    failedRuns.map(async ({ run, check }) => {
+      const annotations = await githubPaginate<GitHubAnnotation>(
+        accessToken,
+        `${repoPath}/check-runs/${run.id}/annotations?per_page=${ANNOTATIONS_PER_RUN}`,
+        ANNOTATIONS_PER_RUN
+      );
+      check.annotations = annotations.map((a) => ({
+        path: a.path,
+        startLine: a.start_line,
+        endLine: a.end_line,
+        level: a.annotation_level,
+        title: a.title,
+        message: a.message,
+      }));
+    })
+  );
+
+  const checks = [...runChecks, ...statusChecks].sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state]);
+
+  const counts: Record<CheckState, number> = { success: 0, failure: 0, pending: 0, neutral: 0, skipped: 0 };
+  for (const check of checks) counts[check.state]++;
+
+  // Checks that weren't fetched might be failing, so never call a partial list green
+  const truncated = runsData.totalCount > runsData.runs.length || combined.total_count > combined.statuses.length;
+
+  return {
+    headSha,
+    overall: counts.failure > 0
+      ? 'failure'
+      : counts.pending > 0 || truncated
+        ? 'pending'
+        : checks.length > 0 ? 'success' : 'none',
+    counts,
+    checks,
+    truncated,
+  };
+}
+
+/**
+ * Get CI results for a pull request's head commit
+ */
+export async function getPullRequestChecks(userId: string, prName: string): Promise<PullRequestChecks> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const pr = await githubRequest<{ head: { sha: string } }>(accessToken, `/repos/${owner}/${repo}/pulls/${prNumber}`);
+  return fetchPullRequestChecks(accessToken, owner, repo, pr.head.sha);
+}
+
+/**
+ * Short text digest of CI results for tool output
+ */
+export function summarizeChecks(checks: PullRequestChecks, maxAnnotations = 10): string {
+  if (checks.overall === 'none') {
+    return '**CI:** no checks reported for the head commit.';
+  }
+
+  const { counts } = checks;
+  const tally = [
+    counts.failure > 0 ? `${counts.failure} failing` : '',
+    counts.pending > 0 ? `${counts.pending} pending` : '',
+    counts.success > 0 ? `${counts.success} passing` : '',
+    counts.neutral + counts.skipped > 0 ? `${counts.neutral + counts.skipped} neutral/skipped` : '',
+  ].filter(Boolean).join(', ');
+  const icon = checks.overall === 'success' ? '✅' : checks.overall === 'failure' ? '❌' : '⏳';
+
+  const lines = [`**CI:** ${icon} ${checks.overall} (${tally})`];
+  for (const check of checks.checks.filter((c) => c.state === 'failure' || c.state === 'pending')) {
+    const duration = check.durationSeconds !== null ? `, ${check.durationSeconds}s` : '';
+    lines.push(`- ${check.name}: ${check.conclusion}${duration}${check.detailsUrl ? ` (${check.detailsUrl})` : ''}`);
+    for (const a of (check.annotations || []).slice(0, maxAnnotations)) {
+      const range = a.endLine !== a.startLine ? `${a.startLine}-${a.endLine}` : `${a.startLine}`;
+      lines.push(`  - ${a.path}:${range} [${a.level}] ${a.message.replace(/\s+/g, ' ').slice(0, 200)}`);
+    }
+    if ((check.annotations?.length ?? 0) > maxAnnotations) {
+      lines.push(`  - ... and ${check.annotations!.length - maxAnnotations} more annotations`);
+    }
+  }
+  if (checks.truncated) {
+    lines.push(`⚠️ Not every check was fetched (at most ${CHECK_RUNS_MAX} check runs and 100 statuses), so the result counts as pending.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,152 @@
+/**
+ * PR Commits
+ * A pull request's commits and single-commit diffs, for commit-by-commit
+ * review of PRs whose history is structured on purpose.
+ */
+
+import { githubPaginate, githubRequest } from './github-client.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  requireGitHubSession,
+  resolvePRIdentifier,
+  toFileChange,
+  type GitHubCommitData,
+  type GitHubFileData,
+} from './github-api.js';
+import { shapeFiles, validatePatterns } from './pr-context-shaper.js';
+import type { CommitDiff, PullRequestCommit, PullRequestCommitList } from './types.js';
+
+const PR_COMMITS_MAX = 250;  // GitHub lists at most 250 commits per pull request
+const COMMIT_FILES_MAX = 300;  // and at most 300 files per commit
+
+const INVALID_CURSOR_MESSAGE = 'Invalid file_cursor. Call get_commit_diff again without file_cursor.';
+
+interface CommitFileCursor {
+  sha: string;
+  offset: number;
+  include?: string[];
+  exclude?: string[];
+}
+
+function toPullRequestCommit(data: GitHubCommitData): PullRequestCommit {
+  return {
+    sha: data.sha,
+    headline: data.commit.message.split('\n')[0],
+    message: data.commit.message,
+    author: data.author?.login || data.commit.author?.name || 'unknown',
+    date: data.commit.author?.date || null,
+    verified: data.commit.verification?.verified ?? false,
+    verificationReason: data.commit.verification?.reason || 'unknown',
+    isMerge: data.parents.length > 1,
+    url: data.html_url,
+  };
+}
+
+async function fetchCommits(accessToken: string, pullPath: string): Promise<GitHubCommitData[]> {
+  return githubPaginate<GitHubCommitData>(accessToken, `${pullPath}/commits?per_page=100`, PR_COMMITS_MAX);
+}
+
+// ============================================
+// Commit Operations
+// ============================================
+
+/**
+ * List a pull request's commits, oldest first
+ */
+export async function listPullRequestCommits(userId: string, prName: string): Promise<PullRequestCommitList> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const pullPath = `/repos/${owner}/${repo}/pulls/${prNumber}`;
+
+  console.log(`[GitHub] Fetching commits for ${owner}/${repo}#${prNumber}`);
+
+  const [pr, commits] = await Promise.all([
+    githubRequest<{ html_url: string; commits: number }>(accessToken, pullPath),
+    fetchCommits(accessToken, pullPath),
+  ]);
+
+  return {
+    prUrl: pr.html_url,
+    commits: commits.map(toPullRequestCommit),
+    totalCommits: pr.commits,
+    truncated: commits.length < pr.commits,
+  };
+}
+
+/**
+ * Get one commit's diff. The commit must be part of the PR (unless the PR
+ * has more commits than GitHub lists). Diffs are filtered, ordered and paged
+ * like get_pr_context; a cursor keeps the filters of the call that issued it.
+ */
+export async function getCommitDiff(
+  userId: string,
+  prName: string,
+  sha: string,
+  options: {
+    maxChars?: number;
+    cursor?: string;
+    include?: string[];
+    exclude?: string[];
+    diffFormat?: 'unified' | 'hunks';
+  } = {}
+): Promise<CommitDiff> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const repoPath = `/repos/${owner}/${repo}`;
+
+  let include = validatePatterns(options.include, 'include_paths');
+  let exclude = validatePatterns(options.exclude, 'exclude_paths');
+  let offset = 0;
+  if (options.cursor) {
+    const cursor = decodeCursor<CommitFileCursor>(options.cursor, INVALID_CURSOR_MESSAGE);
+    if (!cursor || typeof cursor.offset !== 'number' || cursor.offset < 0) {
+      throw new Error(INVALID_CURSOR_MESSAGE);
+    }
+    if (!cursor.sha.startsWith(sha.toLowerCase()) && !sha.toLowerCase().startsWith(cursor.sha)) {
+      throw new Error('This file_cursor belongs to a different commit. Call get_commit_diff again without file_cursor.');
+    }
+    offset = cursor.offset;
+    include = validatePatterns(cursor.include, 'include_paths');
+    exclude = validatePatterns(cursor.exclude, 'exclude_paths');
+  }
+
+  const commits = await fetchCommits(accessToken, `${repoPath}/pulls/${prNumber}`);
+  const onPR = commits.some((commit) => commit.sha.startsWith(sha.toLowerCase()));
+  if (!onPR && commits.length < PR_COMMITS_MAX) {
+    throw new Error(`Commit ${sha} is not part of ${owner}/${repo}#${prNumber}. Use list_pr_commits to see its commits.`);
+  }
+
+  console.log(`[GitHub] Fetching diff for commit ${sha} in ${owner}/${repo}`);
+
+  const data = await githubRequest<GitHubCommitData & {
+    stats?: { additions: number; deletions: number };
+    files?: GitHubFileData[];
+  }>(accessToken, `${repoPath}/commits/${sha}?per_page=${COMMIT_FILES_MAX}`);
+
+  const files = (data.files || []).map(toFileChange);
+  const shaped = shapeFiles(files, { maxChars: options.maxChars, offset, include, exclude, diffFormat: options.diffFormat });
+
+  return {
+    commit: toPullRequestCommit(data),
+    files: shaped.files,
+    additions: data.stats?.additions ?? files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: data.stats?.deletions ?? files.reduce((sum, file) => sum + file.deletions, 0),
+    filesTruncated: files.length >= COMMIT_FILES_MAX,
+    pathFilter: shaped.pathFilter,
+    page: {
+      offset,
+      fileCount: shaped.end - offset,
+      totalFiles: shaped.totalFiles,
+      maxChars: shaped.maxChars,
+      nextCursor: shaped.end < shaped.totalFiles
+        ? encodeCursor({
+            sha: data.sha,
+            offset: shaped.end,
+            include: shaped.pathFilter ? include : undefined,
+            exclude: shaped.pathFilter ? exclude : undefined,
+          } satisfies CommitFileCursor)
+        : undefined,
+    },
+  };
+}
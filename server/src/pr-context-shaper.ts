@@ -0,0 +1,353 @@
+/**
+ * PR Context Shaper
+ * Filters a PR's files by path globs, orders them by review priority and
+ * pages their diffs under a character budget, so large PRs can be walked
+ * without overflowing the model's context.
+ */
+
+import { decodeCursor, encodeCursor } from './github-api.js';
+import { markCommentable, parsePatch } from './diff-parser.js';
+import type { DiffHunk, FileChange, PathFilterSummary, PullRequestContext } from './types.js';
+
+export const DEFAULT_MAX_CHARS = 60000; // Roughly 15k tokens of diff
+const MIN_MAX_CHARS = 1000;
+const MAX_MAX_CHARS = 400000;
+
+const MAX_PATH_PATTERNS = 50;
+
+const INVALID_CURSOR_MESSAGE = 'Invalid file_cursor. Call get_pr_context again without file_cursor.';
+
+// ============================================
+// File Classification
+// ============================================
+
+const GENERATED_PATTERNS: RegExp[] = [
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|composer\.lock|Gemfile\.lock|Cargo\.lock|poetry\.lock|Pipfile\.lock|go\.sum|mix\.lock|pubspec\.lock|packages\.lock\.json|flake\.lock)$/,
+  /\.lock$/,
+  /\.min\.(js|css)$/,
+  /\.(map|snap)$/,
+  /(^|\/)__snapshots__\//,
+  /(^|\/)(dist|build|vendor|node_modules|generated|__generated__)\//,
+  /(\.|_)generated\.[^/]+$/,
+  /\.pb\.(go|cc|h)$|_pb2\.py$/,
+];
+
+const TEST_PATTERNS: RegExp[] = [
+  /(^|\/)(test|tests|__tests__|spec|specs|e2e|__mocks__|fixtures?)\//,
+  /\.(test|spec)\.[^/]+$/,
+  /_test\.(go|py|rb|exs?)$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_spec\.rb$/,
+  /(Test|Tests)\.(java|kt|cs|swift)$/,
+];
+
+/**
+ * Classify a file for review priority: source first, then tests, then
+ * lockfiles and generated output
+ */
+export function classifyFile(filename: string): NonNullable<FileChange['category']> {
+  if (GENERATED_PATTERNS.some((pattern) => pattern.test(filename))) return 'generated';
+  if (TEST_PATTERNS.some((pattern) => pattern.test(filename))) return 'test';
+  return 'source';
+}
+
+const CATEGORY_ORDER: Record<NonNullable<FileChange['category']>, number> = {
+  source: 0,
+  test: 1,
+  generated: 2,
+};
+
+// ============================================
+// Path Filters
+// ============================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Translate glob syntax (`**`, `*`, `?`, `{a,b}`) to a regex source
+ */
+function translateGlob(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?'; // Zero or more directories
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = glob.slice(i + 1, close).split(',').map(translateGlob);
+      source += `(?:${alternatives.join('|')})`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile a path glob. Like .gitignore, a pattern without a slash matches a
+ * file or directory name at any depth, and a pattern that names a directory
+ * also matches everything under it.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim();
+  const anchored = pattern.startsWith('/');
+  pattern = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+  const prefix = !anchored && !pattern.includes('/') ? '(?:.*/)?' : '';
+  return new RegExp(`^${prefix}${translateGlob(pattern)}(?:/.*)?$`);
+}
+
+export function validatePatterns(patterns: unknown, name: string): string[] {
+  if (patterns === undefined) return [];
+  if (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string')) {
+    throw new Error(`${name} must be an array of glob strings.`);
+  }
+  if (patterns.length > MAX_PATH_PATTERNS) {
+    throw new Error(`${name} accepts at most ${MAX_PATH_PATTERNS} patterns.`);
+  }
+  return patterns.map((p: string) => p.trim()).filter((p) => p.length > 0 && p !== '!');
+}
+
+/**
+ * Build a predicate from include/exclude globs. A file is kept when it
+ * matches any include (or there are none) and no exclude. Patterns starting
+ * with "!" in include_paths are treated as excludes.
+ */
+export function compilePathFilter(include: string[], exclude: string[]): (path: string) => boolean {
+  const includes = include.filter((p) => !p.startsWith('!')).map(globToRegExp);
+  const excludes = [
+    ...include.filter((p) => p.startsWith('!')),
+    ...exclude,
+  ].map((p) => globToRegExp(p.replace(/^!/, '')));
+
+  return (path) =>
+    (includes.length === 0 || includes.some((re) => re.test(path))) &&
+    !excludes.some((re) => re.test(path));
+}
+
+// ============================================
+// Paging
+// ============================================
+
+interface FileCursor {
+  headSha: string;
+  baseSha: string;
+  offset: number;
+  include?: string[];
+  exclude?: string[];
+  since?: string;  // The since value of the call that issued the cursor
+  sinceSha?: string;  // And the commit it resolved to
+}
+
+/**
+ * The since value a file_cursor was issued for, so the next page can be
+ * built from the same incremental view
+ */
+export function cursorSince(cursor: string): string | undefined {
+  return decodeCursor<FileCursor>(cursor, INVALID_CURSOR_MESSAGE)?.since;
+}
+
+/**
+ * Cut a patch at the last line boundary that fits the budget
+ */
+function clipPatch(patch: string, maxChars: number): string {
+  const cut = patch.lastIndexOf('\n', maxChars);
+  return patch.slice(0, cut > 0 ? cut : maxChars);
+}
+
+/**
+ * The character budget a max_chars argument resolves to
+ */
+export function resolveMaxChars(maxChars?: number): number {
+  return Math.min(MAX_MAX_CHARS, Math.max(MIN_MAX_CHARS, Math.floor(maxChars ?? DEFAULT_MAX_CHARS)));
+}
+
+interface ShapeFilesOptions {
+  maxChars?: number;
+  reservedChars?: number;  // Already used by other parts of the response
+  offset?: number;
+  include: string[];
+  exclude: string[];
+  diffFormat?: 'unified' | 'hunks';
+  reviewFiles?: FileChange[];  // The PR's own files, when these are an incremental view
+}
+
+interface ShapedFiles {
+  files: FileChange[];
+  pathFilter?: PathFilterSummary;
+  end: number;  // Index after the last file with its diff on this page
+  totalFiles: number;
+  maxChars: number;
+}
+
+/**
+ * Filter files by path, order them by priority and attach diffs (as patches
+ * or parsed hunks) from offset until the budget runs out. Files on other
+ * pages are listed with patchUnavailableReason "deferred".
+ */
+export function shapeFiles(input: FileChange[], options: ShapeFilesOptions): ShapedFiles {
+  const diffFormat = options.diffFormat || 'unified';
+  const maxChars = resolveMaxChars(options.maxChars);
+  const diffBudget = Math.max(0, maxChars - (options.reservedChars ?? 0));
+  const offset = options.offset ?? 0;
+  const { include, exclude } = options;
+
+  const isVisible = compilePathFilter(include, exclude);
+  const visible = input.filter((file) => isVisible(file.filename));
+  const filtered = include.length > 0 || exclude.length > 0;
+
+  // Stable sort keeps GitHub's order within each category
+  const ordered = visible
+    .map((file) => ({ ...file, category: classifyFile(file.filename) }))
+    .sort((a, b) => CATEGORY_ORDER[a.category] - CATEGORY_ORDER[b.category]);
+
+  // In an incremental view, only lines the PR diff also shows take comments
+  const prPatches = options.reviewFiles
+    ? new Map(options.reviewFiles.map((file) => [file.filename, file.patch]))
+    : undefined;
+  const parseHunks = (filename: string, patch: string): DiffHunk[] =>
+    prPatches ? markCommentable(parsePatch(patch), prPatches.get(filename)) : parsePatch(patch);
+
+  // Hunks are measured as serialized, since that is what the caller receives
+  const renderDiff = (filename: string, patch: string): Pick<FileChange, 'patch' | 'hunks'> =>
+    diffFormat === 'hunks' ? { hunks: parseHunks(filename, patch) } : { patch };
+  const diffSize = (diff: Pick<FileChange, 'patch' | 'hunks'>): number =>
+    diff.hunks ? JSON.stringify(diff.hunks).length : diff.patch?.length ?? 0;
+
+  // Take files until their diffs exhaust the budget; the first file always
+  // goes in (clipped if needed) so every page makes progress
+  const pageDiffs: Array<Pick<FileChange, 'patch' | 'hunks' | 'patchClipped'>> = [];
+  let used = 0;
+  let end = offset;
+  while (end < ordered.length) {
+    const { filename, patch } = ordered[end];
+    let diff: Pick<FileChange, 'patch' | 'hunks' | 'patchClipped'> = patch ? renderDiff(filename, patch) : {};
+    let size = diffSize(diff);
+    if (end > offset && used + size > diffBudget) break;
+    if (patch && size > diffBudget) {
+      // Scale the cut so the rendered diff, not the raw patch, fits
+      const clipped = clipPatch(patch, Math.floor(diffBudget * (patch.length / size)));
+      diff = { ...renderDiff(filename, clipped), patchClipped: true };
+      size = diffSize(diff);
+    }
+    pageDiffs.push(diff);
+    used += size;
+    end++;
+  }
+
+  const files = ordered.map((file, index): FileChange => {
+    if (index >= offset && index < end) {
+      const { patch: _patch, ...rest } = file;
+      return { ...rest, ...pageDiffs[index - offset] };
+    }
+    if (!file.patch) return file;
+    const { patch: _patch, ...rest } = file;
+    return { ...rest, patchUnavailableReason: 'deferred' };
+  });
+
+  return {
+    files,
+    pathFilter: filtered
+      ? {
+          include,
+          exclude,
+          hiddenFiles: input.length - visible.length,
+          additions: visible.reduce((sum, file) => sum + file.additions, 0),
+          deletions: visible.reduce((sum, file) => sum + file.deletions, 0),
+        }
+      : undefined,
+    end,
+    totalFiles: ordered.length,
+    maxChars,
+  };
+}
+
+/**
+ * Return a copy of the context with files filtered by path, in priority
+ * order, and only one page of diffs attached. The input (which may be
+ * cached) is not modified. A cursor carries the filters and since view of
+ * the call that issued it; include/exclude are ignored when one is given.
+ */
+export function shapePullRequestContext(
+  context: PullRequestContext,
+  options: {
+    maxChars?: number;
+    cursor?: string;
+    include?: string[];
+    exclude?: string[];
+    diffFormat?: 'unified' | 'hunks';
+    reviewFiles?: FileChange[];
+    reservedChars?: number;
+  } = {}
+): PullRequestContext {
+  let include = validatePatterns(options.include, 'include_paths');
+  let exclude = validatePatterns(options.exclude, 'exclude_paths');
+  let offset = 0;
+  if (options.cursor) {
+    const cursor = decodeCursor<FileCursor>(options.cursor, INVALID_CURSOR_MESSAGE);
+    if (!cursor || typeof cursor.offset !== 'number' || cursor.offset < 0) {
+      throw new Error(INVALID_CURSOR_MESSAGE);
+    }
+    if (cursor.headSha !== context.pr.headSha || cursor.baseSha !== context.pr.baseSha) {
+      throw new Error('The PR has changed since this file_cursor was issued. Call get_pr_context again without file_cursor.');
+    }
+    if ((cursor.sinceSha ?? null) !== (context.since?.fromSha ?? null)) {
+      throw new Error('The "since" commit has changed since this file_cursor was issued (e.g. a new review was submitted). Call get_pr_context again without file_cursor.');
+    }
+    offset = cursor.offset;
+    include = validatePatterns(cursor.include, 'include_paths');
+    exclude = validatePatterns(cursor.exclude, 'exclude_paths');
+  }
+
+  const shaped = shapeFiles(context.files, {
+    maxChars: options.maxChars,
+    reservedChars: options.reservedChars,
+    offset,
+    include,
+    exclude,
+    diffFormat: options.diffFormat,
+    // A since view that fell back to the full diff is the PR diff already
+    reviewFiles: context.since?.fromSha ? options.reviewFiles : undefined,
+  });
+
+  return {
+    ...context,
+    files: shaped.files,
+    pathFilter: shaped.pathFilter,
+    page: {
+      offset,
+      fileCount: shaped.end - offset,
+      totalFiles: shaped.totalFiles,
+      maxChars: shaped.maxChars,
+      nextCursor: shaped.end < shaped.totalFiles
+        ? encodeCursor({
+            headSha: context.pr.headSha,
+            baseSha: context.pr.baseSha,
+            offset: shaped.end,
+            include: shaped.pathFilter ? include : undefined,
+            exclude: shaped.pathFilter ? exclude : undefined,
+            since: context.since?.requested,
+            sinceSha: context.since?.fromSha ?? undefined,
+          } satisfies FileCursor)
+        : undefined,
+    },
+  };
+}
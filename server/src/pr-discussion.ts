@@ -0,0 +1,274 @@
+/**
+ * PR Discussion
+ * Review threads, conversation comments and reviewer states already on a
+ * PR, so a review can build on what was said instead of repeating it.
+ */
+
+import { githubGraphQL } from './github-client.js';
+import { requireGitHubSession, resolvePRIdentifier, type ParsedPRIdentifier } from './github-api.js';
+import type { DiscussionComment, PullRequestDiscussion, ReviewerState, ReviewThread } from './types.js';
+
+const THREADS_MAX = 300;
+const ISSUE_COMMENTS_MAX = 300;
+const COMMENTS_PER_THREAD = 30;
+const MAX_BODY_CHARS = 2000;
+
+interface GraphQLComment {
+  databaseId: number;
+  author: { login: string } | null;  // Null for deleted accounts
+  body: string;
+  createdAt: string;
+  url: string;
+}
+
+interface GraphQLConnection<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+interface DiscussionQueryResult {
+  repository: {
+    pullRequest: {
+      reviewThreads?: GraphQLConnection<{
+        id: string;
+        path: string;
+        line: number | null;
+        startLine: number | null;
+        originalLine: number | null;
+        diffSide: 'LEFT' | 'RIGHT';
+        isResolved: boolean;
+        isOutdated: boolean;
+        resolvedBy: { login: string } | null;
+        comments: { totalCount: number; nodes: GraphQLComment[] };
+      }>;
+      comments?: GraphQLConnection<GraphQLComment>;
+      latestReviews?: {
+        nodes: Array<{
+          databaseId: number;
+          author: { login: string } | null;
+          state: ReviewerState['state'];
+          submittedAt: string | null;
+          url: string;
+        }>;
+      };
+    } | null;
+  } | null;
+}
+
+// Connections are skipped once drained, so later pages only fetch what is left
+const DISCUSSION_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!,
+        $threadsAfter: String, $commentsAfter: String,
+        $skipThreads: Boolean!, $skipComments: Boolean!, $skipReviews: Boolean!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 50, after: $threadsAfter) @skip(if: $skipThreads) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            path
+            line
+            startLine
+            originalLine
+            diffSide
+            isResolved
+            isOutdated
+            resolvedBy { login }
+            comments(first: ${COMMENTS_PER_THREAD}) {
+              totalCount
+              nodes { databaseId author { login } body createdAt url }
+            }
+          }
+        }
+        comments(first: 100, after: $commentsAfter) @skip(if: $skipComments) {
+          pageInfo { hasNextPage endCursor }
+          nodes { databaseId author { login } body createdAt url }
+        }
+        latestReviews(first: 100) @skip(if: $skipReviews) {
+          nodes { databaseId author { login } state submittedAt url }
+        }
+      }
+    }
+  }
+`;
+
+function mapComment(comment: GraphQLComment): DiscussionComment {
+  return {
+    id: comment.databaseId,
+    author: comment.author?.login || 'ghost',
+    body: comment.body.length > MAX_BODY_CHARS
+      ? `${comment.body.slice(0, MAX_BODY_CHARS)}...`
+      : comment.body,
+    createdAt: comment.createdAt,
+    url: comment.url,
+  };
+}
+
+/**
+ * Fetch the discussion on an already-resolved PR
+ */
+export async function fetchPullRequestDiscussion(
+  accessToken: string,
+  { owner, repo, prNumber }: ParsedPRIdentifier
+): Promise<PullRequestDiscussion> {
+  const discussion: PullRequestDiscussion = { threads: [], issueComments: [], reviews: [], truncated: false };
+  let threadsAfter: string | null = null;
+  let commentsAfter: string | null = null;
+  let threadsDone = false;
+  let commentsDone = false;
+  let firstPage = true;
+
+  console.log(`[GitHub] Fetching discussion for ${owner}/${repo}#${prNumber}`);
+
+  while (!threadsDone || !commentsDone) {
+    const data: DiscussionQueryResult = await githubGraphQL<DiscussionQueryResult>(accessToken, DISCUSSION_QUERY, {
+      owner,
+      repo,
+      number: prNumber,
+      threadsAfter,
+      commentsAfter,
+      skipThreads: threadsDone,
+      skipComments: commentsDone,
+      skipReviews: !firstPage,
+    });
+    const pr = data.repository?.pullRequest;
+    if (!pr) {
+      throw new Error(`Pull request ${owner}/${repo}#${prNumber} not found`);
+    }
+
+    if (pr.reviewThreads) {
+      for (const thread of pr.reviewThreads.nodes) {
+        discussion.threads.push({
+          id: thread.id,
+          path: thread.path,
+          line: thread.line,
+          startLine: thread.startLine,
+          originalLine: thread.originalLine,
+          side: thread.diffSide,
+          isResolved: thread.isResolved,
+          isOutdated: thread.isOutdated,
+          resolvedBy: thread.resolvedBy?.login,
+          comments: thread.comments.nodes.map(mapComment),
+          totalComments: thread.comments.totalCount,
+        });
+      }
+      threadsAfter = pr.reviewThreads.pageInfo.endCursor;
+      threadsDone = !pr.reviewThreads.pageInfo.hasNextPage || discussion.threads.length >= THREADS_MAX;
+      if (pr.reviewThreads.pageInfo.hasNextPage && threadsDone) discussion.truncated = true;
+    }
+
+    if (pr.comments) {
+      discussion.issueComments.push(...pr.comments.nodes.map(mapComment));
+      commentsAfter = pr.comments.pageInfo.endCursor;
+      commentsDone = !pr.comments.pageInfo.hasNextPage || discussion.issueComments.length >= ISSUE_COMMENTS_MAX;
+      if (pr.comments.pageInfo.hasNextPage && commentsDone) discussion.truncated = true;
+    }
+
+    if (pr.latestReviews) {
+      discussion.reviews = pr.latestReviews.nodes.map((review) => ({
+        reviewId: review.databaseId,
+        login: review.author?.login || 'ghost',
+        state: review.state,
+        submittedAt: review.submittedAt,
+        url: review.url,
+      }));
+    }
+
+    firstPage = false;
+  }
+
+  if (discussion.threads.some((thread) => thread.totalComments > thread.comments.length)) {
+    discussion.truncated = true;
+  }
+
+  return discussion;
+}
+
+/**
+ * Get the existing discussion on a pull request
+ */
+export async function getPullRequestDiscussion(
+  userId: string,
+  prName: string,
+  options: { includeResolved?: boolean } = {}
+): Promise<PullRequestDiscussion> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const identifier = await resolvePRIdentifier(accessToken, prName, username);
+  const discussion = await fetchPullRequestDiscussion(accessToken, identifier);
+
+  if (options.includeResolved === false) {
+    return { ...discussion, threads: discussion.threads.filter((thread) => !thread.isResolved) };
+  }
+  return discussion;
+}
+
+/**
+ * Cut a discussion down to about maxChars (as serialized) for get_pr_context.
+ * Unresolved threads are kept first, then the latest conversation comments,
+ * then resolved threads; what is left out is counted in clipped.
+ */
+export function fitDiscussion(discussion: PullRequestDiscussion, maxChars: number): PullRequestDiscussion {
+  if (JSON.stringify(discussion).length <= maxChars) return discussion;
+
+  const candidates: Array<ReviewThread | DiscussionComment> = [
+    ...discussion.threads.filter((thread) => !thread.isResolved),
+    ...[...discussion.issueComments].reverse(),
+    ...discussion.threads.filter((thread) => thread.isResolved),
+  ];
+  const kept = new Set<ReviewThread | DiscussionComment>();
+  let used = JSON.stringify({ ...discussion, threads: [], issueComments: [] }).length;
+  for (const item of candidates) {
+    const size = JSON.stringify(item).length + 1;
+    if (used + size > maxChars) continue;
+    kept.add(item);
+    used += size;
+  }
+
+  const threads = discussion.threads.filter((thread) => kept.has(thread));
+  const issueComments = discussion.issueComments.filter((comment) => kept.has(comment));
+  return {
+    ...discussion,
+    threads,
+    issueComments,
+    clipped: {
+      threads: discussion.threads.length - threads.length,
+      issueComments: discussion.issueComments.length - issueComments.length,
+    },
+  };
+}
+
+/**
+ * Short text digest of a discussion for tool output
+ */
+export function summarizeDiscussion(discussion: PullRequestDiscussion, maxThreads = 20): string {
+  const describeThread = (thread: ReviewThread): string => {
+    const line = thread.line ?? thread.originalLine;
+    const location = `${thread.path}${line !== null ? `:${line}` : ''}`;
+    const flags = [thread.isResolved ? 'resolved' : 'unresolved', thread.isOutdated ? 'outdated' : '']
+      .filter(Boolean)
+      .join(', ');
+    const first = thread.comments[0];
+    const snippet = first ? `@${first.author}: ${first.body.replace(/\s+/g, ' ').slice(0, 140)}` : '';
+    const replies = thread.totalComments > 1 ? ` (+${thread.totalComments - 1} repl${thread.totalComments === 2 ? 'y' : 'ies'})` : '';
+    return `- ${location} [${flags}] ${snippet}${replies}`;
+  };
+
+  // Unresolved threads are what a reviewer needs to see first
+  const threads = [...discussion.threads].sort((a, b) => Number(a.isResolved) - Number(b.isResolved));
+  const unresolved = discussion.threads.filter((thread) => !thread.isResolved).length;
+
+  const sections = [
+    `**Review threads:** ${discussion.threads.length} (${unresolved} unresolved)`,
+    ...threads.slice(0, maxThreads).map(describeThread),
+    threads.length > maxThreads ? `... and ${threads.length - maxThreads} more threads` : '',
+    `**Conversation comments:** ${discussion.issueComments.length}`,
+    discussion.reviews.length > 0
+      ? `**Reviews:** ${discussion.reviews.map((r) => `@${r.login} ${r.state.toLowerCase().replace(/_/g, ' ')} (review ${r.reviewId})`).join(', ')}`
+      : '**Reviews:** none yet',
+    discussion.truncated ? '⚠️ Some threads or comments were not fetched (very long discussion).' : '',
+    discussion.clipped
+      ? `⚠️ ${discussion.clipped.threads} thread(s) and ${discussion.clipped.issueComments} conversation comment(s) were left out to fit max_chars; call get_pr_discussion for all of them.`
+      : '',
+  ];
+  return sections.filter(Boolean).join('\n');
+}
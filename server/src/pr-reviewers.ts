@@ -0,0 +1,219 @@
+/**
+ * PR Reviewers
+ * Request and remove reviewers and teams on a pull request. Users must be
+ * collaborators on the repository and teams must exist in its organization;
+ * anything else is reported back instead of being sent to GitHub.
+ */
+
+import { GitHubApiError, githubRequest } from './github-client.js';
+import { getUserTeams, requireGitHubSession, resolvePRIdentifier } from './github-api.js';
+import type { ReviewRequestResult } from './types.js';
+
+interface GitHubPullReviewersData {
+  html_url: string;
+  user: { login: string } | null;
+  requested_reviewers: Array<{ login: string }>;
+  requested_teams: Array<{ slug: string }>;
+}
+
+/**
+ * "@sam" -> "sam"
+ */
+function normalizeLogin(value: string): string {
+  return value.trim().replace(/^@/, '');
+}
+
+/**
+ * Accept "backend", "@my-org/backend" or "my-org/backend", and refuse teams
+ * from another organization (GitHub only requests teams of the repo's owner)
+ */
+function parseTeam(value: string, owner: string): { slug: string } | { error: string } {
+  const trimmed = value.trim().replace(/^@/, '');
+  const slash = trimmed.indexOf('/');
+  if (slash === -1) {
+    return { slug: trimmed.toLowerCase() };
+  }
+  const org = trimmed.slice(0, slash);
+  if (org.toLowerCase() !== owner.toLowerCase()) {
+    return { error: `Team belongs to ${org}, but only ${owner} teams can review this PR` };
+  }
+  return { slug: trimmed.slice(slash + 1).toLowerCase() };
+}
+
+async function isCollaborator(accessToken: string, repoPath: string, login: string): Promise<boolean> {
+  try {
+    // 204 when the user is a collaborator, 404 when not
+    await githubRequest(accessToken, `${repoPath}/collaborators/${encodeURIComponent(login)}`);
+    return true;
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a team slug against the user's own teams first (the data PR listing
+ * already uses), then the organization, since you can request teams you
+ * aren't on
+ */
+async function teamExists(
+  accessToken: string,
+  owner: string,
+  slug: string,
+  userTeams: Array<{ slug: string; organization: { login: string } }>
+): Promise<boolean> {
+  if (userTeams.some((team) => team.slug === slug && team.organization.login.toLowerCase() === owner.toLowerCase())) {
+    return true;
+  }
+  try {
+    await githubRequest(accessToken, `/orgs/${owner}/teams/${encodeURIComponent(slug)}`);
+    return true;
+  } catch (error) {
+    // 404 for unknown teams, and for owners that are users rather than organizations
+    if (error instanceof GitHubApiError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function toResult(
+  pr: GitHubPullReviewersData,
+  action: ReviewRequestResult['action'],
+  reviewers: string[],
+  teams: string[],
+  rejected: ReviewRequestResult['rejected']
+): ReviewRequestResult {
+  return {
+    prUrl: pr.html_url,
+    action,
+    reviewers,
+    teams,
+    rejected,
+    requestedReviewers: pr.requested_reviewers.map((r) => r.login),
+    requestedTeams: pr.requested_teams.map((t) => t.slug),
+  };
+}
+
+// ============================================
+// Reviewer Operations
+// ============================================
+
+/**
+ * Request reviews from users and teams. Valid entries are requested even if
+ * others are rejected; it only fails when none are valid.
+ */
+export async function requestReviewers(
+  userId: string,
+  prName: string,
+  options: { reviewers?: string[]; teams?: string[] }
+): Promise<ReviewRequestResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const repoPath = `/repos/${owner}/${repo}`;
+  const pullPath = `${repoPath}/pulls/${prNumber}`;
+
+  const pr = await githubRequest<GitHubPullReviewersData>(accessToken, pullPath);
+  const author = pr.user?.login.toLowerCase();
+  const rejected: ReviewRequestResult['rejected'] = [];
+
+  const logins = [...new Set((options.reviewers || []).map(normalizeLogin).filter(Boolean))];
+  const collaborators = await Promise.all(
+    logins.map(async (login) => {
+      if (login.toLowerCase() === author) {
+        rejected.push({ name: login, reason: 'The PR author cannot review their own PR' });
+        return null;
+      }
+      if (!(await isCollaborator(accessToken, repoPath, login))) {
+        rejected.push({ name: login, reason: `Not a collaborator on ${owner}/${repo}` });
+        return null;
+      }
+      return login;
+    })
+  );
+  const reviewers = collaborators.filter((login): login is string => login !== null);
+
+  const teams: string[] = [];
+  if (options.teams?.length) {
+    const userTeams = await getUserTeams(accessToken);
+    for (const value of new Set(options.teams.filter((team) => team.trim()))) {
+      const parsed = parseTeam(value, owner);
+      if ('error' in parsed) {
+        rejected.push({ name: value, reason: parsed.error });
+      } else if (!(await teamExists(accessToken, owner, parsed.slug, userTeams))) {
+        rejected.push({ name: value, reason: `No team "${parsed.slug}" in ${owner}` });
+      } else if (!teams.includes(parsed.slug)) {
+        teams.push(parsed.slug);
+      }
+    }
+  }
+
+  if (reviewers.length === 0 && teams.length === 0) {
+    const reasons = rejected.map((r) => `${r.name}: ${r.reason}`).join('; ');
+    throw new Error(reasons ? `No reviewers could be requested. ${reasons}` : 'No reviewers or teams given.');
+  }
+
+  console.log(`[Reviewers] Requesting ${[...reviewers, ...teams.map((t) => `team ${t}`)].join(', ')} on ${owner}/${repo}#${prNumber}`);
+
+  const updated = await githubRequest<GitHubPullReviewersData>(accessToken, `${pullPath}/requested_reviewers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewers, team_reviewers: teams }),
+  });
+  return toResult(updated, 'request', reviewers, teams, rejected);
+}
+
+/**
+ * Withdraw review requests. Users and teams that weren't requested are
+ * reported as rejected.
+ */
+export async function removeReviewers(
+  userId: string,
+  prName: string,
+  options: { reviewers?: string[]; teams?: string[] }
+): Promise<ReviewRequestResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  const pullPath = `/repos/${owner}/${repo}/pulls/${prNumber}`;
+
+  const pr = await githubRequest<GitHubPullReviewersData>(accessToken, pullPath);
+  const rejected: ReviewRequestResult['rejected'] = [];
+
+  const reviewers: string[] = [];
+  for (const login of new Set((options.reviewers || []).map(normalizeLogin).filter(Boolean))) {
+    const match = pr.requested_reviewers.find((r) => r.login.toLowerCase() === login.toLowerCase());
+    if (match) {
+      reviewers.push(match.login);
+    } else {
+      rejected.push({ name: login, reason: 'No review is requested from this user' });
+    }
+  }
+
+  const teams: string[] = [];
+  for (const value of new Set((options.teams || []).filter((team) => team.trim()))) {
+    const parsed = parseTeam(value, owner);
+    if ('error' in parsed) {
+      rejected.push({ name: value, reason: parsed.error });
+    } else if (!pr.requested_teams.some((t) => t.slug === parsed.slug)) {
+      rejected.push({ name: value, reason: 'No review is requested from this team' });
+    } else if (!teams.includes(parsed.slug)) {
+      teams.push(parsed.slug);
+    }
+  }
+
+  if (reviewers.length === 0 && teams.length === 0) {
+    const reasons = rejected.map((r) => `${r.name}: ${r.reason}`).join('; ');
+    throw new Error(reasons ? `No review requests were removed. ${reasons}` : 'No reviewers or teams given.');
+  }
+
+  console.log(`[Reviewers] Removing ${[...reviewers, ...teams.map((t) => `team ${t}`)].join(', ')} from ${owner}/${repo}#${prNumber}`);
+
+  const updated = await githubRequest<GitHubPullReviewersData>(accessToken, `${pullPath}/requested_reviewers`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewers, team_reviewers: teams }),
+  });
+  return toResult(updated, 'remove', reviewers, teams, rejected);
+}
@@ -0,0 +1,343 @@
+/**
+ * PR Triage
+ * Labels, assignees and milestones on a pull request. Names given in chat
+ * ("needs design", "v2") are matched against what exists in the repository,
+ * so a near miss applies the real label instead of creating a new one.
+ */
+
+import { GitHubApiError, githubPaginate, githubRequest } from './github-client.js';
+import {
+  getAuthenticatedUserLogin,
+  requireGitHubSession,
+  resolvePRIdentifier,
+} from './github-api.js';
+import type {
+  AssigneeUpdateResult,
+  LabelUpdateResult,
+  MilestoneUpdateResult,
+  TriageRejection,
+} from './types.js';
+
+const LABELS_MAX = 1000;
+const MILESTONES_MAX = 300;
+const SUGGESTIONS_MAX = 3;
+const FUZZY_MIN_LENGTH = 5; // Shorter names ("p1", "v2") must match exactly
+
+interface GitHubIssueData {
+  html_url: string;
+  labels: Array<{ name: string }>;
+  assignees: Array<{ login: string }> | null;
+  milestone: { number: number; title: string; due_on: string | null } | null;
+}
+
+interface GitHubMilestoneData {
+  number: number;
+  title: string;
+  due_on: string | null;
+}
+
+interface TriageTarget {
+  accessToken: string;
+  username?: string;
+  repoPath: string;
+  issuePath: string;
+  label: string;  // owner/repo#123, for logs
+}
+
+async function resolveTarget(userId: string, prName: string): Promise<TriageTarget> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const { owner, repo, prNumber } = await resolvePRIdentifier(accessToken, prName, username);
+  // Labels, assignees and milestones live on the issue side of a PR
+  return {
+    accessToken,
+    username,
+    repoPath: `/repos/${owner}/${repo}`,
+    issuePath: `/repos/${owner}/${repo}/issues/${prNumber}`,
+    label: `${owner}/${repo}#${prNumber}`,
+  };
+}
+
+// ============================================
+// Name Matching
+// ============================================
+
+/**
+ * "Needs Design", "needs-design" and "needs_design" all normalize to "needsdesign"
+ */
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Find the existing name a user meant. Tries, in order: exact match
+ * ignoring case, match ignoring punctuation and spaces, and a unique
+ * closest name within a small edit distance. The typo step skips short
+ * names and names whose digits differ, since "v2" and "v3" are different
+ * things. Anything else returns suggestions, names containing the input
+ * first ("design" suggests "needs-design" rather than applying it).
+ */
+function matchName(input: string, candidates: string[]): { match: string } | { suggestions: string[] } {
+  const wanted = input.trim().toLowerCase();
+  const exact = candidates.find((name) => name.toLowerCase() === wanted);
+  if (exact) return { match: exact };
+
+  const normalized = normalizeName(input);
+  const sameWords = candidates.filter((name) => normalizeName(name) === normalized);
+  if (sameWords.length === 1) return { match: sameWords[0] };
+
+  const ranked = candidates
+    .map((name) => ({ name, distance: editDistance(normalized, normalizeName(name)) }))
+    .sort((a, b) => a.distance - b.distance);
+  const typos = normalized.length >= FUZZY_MIN_LENGTH
+    ? ranked.filter((r) => digitsOf(normalizeName(r.name)) === digitsOf(normalized))
+    : [];
+  const threshold = Math.max(1, Math.floor(normalized.length / 4));
+  if (typos.length > 0 && typos[0].distance <= threshold && typos[1]?.distance !== typos[0].distance) {
+    return { match: typos[0].name };
+  }
+
+  const containing = normalized.length >= 3
+    ? candidates.filter((name) => normalizeName(name).includes(normalized))
+    : [];
+  const suggestions = [...new Set([...containing, ...ranked.map((r) => r.name)])];
+  return { suggestions: suggestions.slice(0, SUGGESTIONS_MAX) };
+}
+
+// ============================================
+// Labels
+// ============================================
+
+/**
+ * Add existing repository labels to a PR. Labels are never created; inputs
+ * that don't match one are rejected with the closest label names.
+ */
+export async function addLabels(userId: string, prName: string, labels: string[]): Promise<LabelUpdateResult> {
+  const target = await resolveTarget(userId, prName);
+  const repoLabels = await githubPaginate<{ name: string }>(
+    target.accessToken,
+    `${target.repoPath}/labels?per_page=100`,
+    LABELS_MAX
+  );
+  const names = repoLabels.map((label) => label.name);
+
+  const changed: string[] = [];
+  const matched: LabelUpdateResult['matched'] = [];
+  const rejected: TriageRejection[] = [];
+  for (const requested of new Set(labels.map((label) => label.trim()).filter(Boolean))) {
+    const result = matchName(requested, names);
+    if ('match' in result) {
+      if (!changed.includes(result.match)) changed.push(result.match);
+      if (result.match.toLowerCase() !== requested.toLowerCase()) {
+        matched.push({ requested, label: result.match });
+      }
+    } else {
+      rejected.push({ name: requested, reason: 'No such label in the repository', suggestions: result.suggestions });
+    }
+  }
+
+  if (changed.length === 0) {
+    const issue = await githubRequest<GitHubIssueData>(target.accessToken, target.issuePath);
+    return { prUrl: issue.html_url, action: 'add', changed, matched, rejected, labels: issue.labels.map((l) => l.name) };
+  }
+
+  console.log(`[Triage] Adding labels ${changed.join(', ')} to ${target.label}`);
+
+  const [current, issue] = await Promise.all([
+    githubRequest<Array<{ name: string }>>(target.accessToken, `${target.issuePath}/labels`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ labels: changed }),
+    }),
+    githubRequest<GitHubIssueData>(target.accessToken, target.issuePath),
+  ]);
+  return { prUrl: issue.html_url, action: 'add', changed, matched, rejected, labels: current.map((l) => l.name) };
+}
+
+/**
+ * Remove labels from a PR, matching inputs against the labels it has
+ */
+export async function removeLabels(userId: string, prName: string, labels: string[]): Promise<LabelUpdateResult> {
+  const target = await resolveTarget(userId, prName);
+  const issue = await githubRequest<GitHubIssueData>(target.accessToken, target.issuePath);
+  const names = issue.labels.map((label) => label.name);
+
+  const changed: string[] = [];
+  const matched: LabelUpdateResult['matched'] = [];
+  const rejected: TriageRejection[] = [];
+  for (const requested of new Set(labels.map((label) => label.trim()).filter(Boolean))) {
+    const result = matchName(requested, names);
+    if ('match' in result) {
+      if (!changed.includes(result.match)) changed.push(result.match);
+      if (result.match.toLowerCase() !== requested.toLowerCase()) {
+        matched.push({ requested, label: result.match });
+      }
+    } else {
+      rejected.push({ name: requested, reason: 'The PR does not have this label', suggestions: result.suggestions });
+    }
+  }
+
+  let remaining = names;
+  for (const label of changed) {
+    console.log(`[Triage] Removing label ${label} from ${target.label}`);
+    try {
+      const current = await githubRequest<Array<{ name: string }>>(
+        target.accessToken,
+        `${target.issuePath}/labels/${encodeURIComponent(label)}`,
+        { method: 'DELETE' }
+      );
+      remaining = current.map((l) => l.name);
+    } catch (error) {
+      // Removed by someone else in the meantime
+      if (!(error instanceof GitHubApiError && error.status === 404)) throw error;
+      remaining = remaining.filter((name) => name !== label);
+    }
+  }
+
+  return { prUrl: issue.html_url, action: 'remove', changed, matched, rejected, labels: remaining };
+}
+
+// ============================================
+// Assignees and Milestones
+// ============================================
+
+/**
+ * Add and remove assignees. "me" stands for the authenticated user; added
+ * users must be assignable in the repository.
+ */
+export async function updateAssignees(
+  userId: string,
+  prName: string,
+  options: { add?: string[]; remove?: string[] }
+): Promise<AssigneeUpdateResult> {
+  const target = await resolveTarget(userId, prName);
+  let login: string | undefined = target.username;
+  const resolveLogin = async (value: string): Promise<string> => {
+    const name = value.trim().replace(/^@/, '');
+    if (name.toLowerCase() !== 'me') return name;
+    login = login || (await getAuthenticatedUserLogin(target.accessToken));
+    return login;
+  };
+
+  const issue = await githubRequest<GitHubIssueData>(target.accessToken, target.issuePath);
+  const current = (issue.assignees || []).map((a) => a.login);
+  const rejected: TriageRejection[] = [];
+
+  const add: string[] = [];
+  for (const value of (options.add || []).filter((name) => name.trim())) {
+    const name = await resolveLogin(value);
+    if (add.some((a) => a.toLowerCase() === name.toLowerCase())) continue;
+    if (current.some((a) => a.toLowerCase() === name.toLowerCase())) {
+      rejected.push({ name, reason: 'Already assigned' });
+      continue;
+    }
+    try {
+      // 204 when the user can be assigned, 404 when not
+      await githubRequest(target.accessToken, `${target.repoPath}/assignees/${encodeURIComponent(name)}`);
+      add.push(name);
+    } catch (error) {
+      if (!(error instanceof GitHubApiError && error.status === 404)) throw error;
+      rejected.push({ name, reason: 'Cannot be assigned in this repository' });
+    }
+  }
+
+  const remove: string[] = [];
+  for (const value of (options.remove || []).filter((name) => name.trim())) {
+    const name = await resolveLogin(value);
+    const assigned = current.find((a) => a.toLowerCase() === name.toLowerCase());
+    if (!assigned) {
+      rejected.push({ name, reason: 'Not assigned' });
+    } else if (!remove.includes(assigned)) {
+      remove.push(assigned);
+    }
+  }
+
+  let assignees = current;
+  if (add.length > 0) {
+    console.log(`[Triage] Assigning ${add.join(', ')} to ${target.label}`);
+    const updated = await githubRequest<GitHubIssueData>(target.accessToken, `${target.issuePath}/assignees`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ assignees: add }),
+    });
+    assignees = (updated.assignees || []).map((a) => a.login);
+  }
+  if (remove.length > 0) {
+    console.log(`[Triage] Unassigning ${remove.join(', ')} from ${target.label}`);
+    const updated = await githubRequest<GitHubIssueData>(target.accessToken, `${target.issuePath}/assignees`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ assignees: remove }),
+    });
+    assignees = (updated.assignees || []).map((a) => a.login);
+  }
+
+  return { prUrl: issue.html_url, added: add, removed: remove, rejected, assignees };
+}
+
+/**
+ * Set the PR's milestone by title (matched against open milestones) or
+ * number, or clear it with null
+ */
+export async function setMilestone(
+  userId: string,
+  prName: string,
+  milestone: string | number | null
+): Promise<MilestoneUpdateResult> {
+  const target = await resolveTarget(userId, prName);
+
+  let chosen: GitHubMilestoneData | null = null;
+  if (typeof milestone === 'number') {
+    try {
+      chosen = await githubRequest<GitHubMilestoneData>(target.accessToken, `${target.repoPath}/milestones/${milestone}`);
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        throw new Error(`Milestone ${milestone} does not exist in this repository.`);
+      }
+      throw error;
+    }
+  } else if (milestone !== null) {
+    const milestones = await githubPaginate<GitHubMilestoneData>(
+      target.accessToken,
+      `${target.repoPath}/milestones?state=open&per_page=100`,
+      MILESTONES_MAX
+    );
+    const result = matchName(milestone, milestones.map((m) => m.title));
+    if (!('match' in result)) {
+      const hint = result.suggestions.length > 0 ? ` Closest open milestones: ${result.suggestions.join(', ')}.` : ' The repository has no open milestones.';
+      throw new Error(`No open milestone matches "${milestone}".${hint}`);
+    }
+    chosen = milestones.find((m) => m.title === result.match)!;
+  }
+
+  const issue = await githubRequest<GitHubIssueData>(target.accessToken, target.issuePath);
+  console.log(`[Triage] Setting milestone of ${target.label} to ${chosen ? chosen.title : 'none'}`);
+  await githubRequest<GitHubIssueData>(target.accessToken, target.issuePath, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ milestone: chosen ? chosen.number : null }),
+  });
+
+  return {
+    prUrl: issue.html_url,
+    milestone: chosen ? { number: chosen.number, title: chosen.title, dueOn: chosen.due_on } : null,
+    previous: issue.milestone?.title || null,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Review Management
+ * Edit and delete review comments and dismiss reviews the authenticated
+ * user posted. Other users' content is never touched.
+ */
+
+import { githubRequest } from './github-client.js';
+import {
+  getAuthenticatedUserLogin,
+  requireGitHubSession,
+  resolvePRIdentifier,
+  type ParsedPRIdentifier,
+} from './github-api.js';
+import { commentTag, idempotencyService, reviewTag } from './idempotency-service.js';
+
+interface GitHubReviewCommentData {
+  id: number;
+  body: string;
+  html_url: string;
+  path: string;
+  line: number | null;
+  pull_request_review_id: number | null;
+  pull_request_url: string;
+  user: { login: string } | null;
+}
+
+interface GitHubReviewData {
+  id: number;
+  state: string;
+  body: string | null;
+  html_url: string;
+  user: { login: string } | null;
+}
+
+interface ManagementTarget {
+  accessToken: string;
+  login: string;
+  identifier: ParsedPRIdentifier;
+  repoPath: string;
+  repoFullName: string;
+}
+
+async function resolveTarget(userId: string, prName: string): Promise<ManagementTarget> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const identifier = await resolvePRIdentifier(accessToken, prName, username);
+  return {
+    accessToken,
+    login: username || (await getAuthenticatedUserLogin(accessToken)),
+    identifier,
+    repoPath: `/repos/${identifier.owner}/${identifier.repo}`,
+    repoFullName: `${identifier.owner}/${identifier.repo}`,
+  };
+}
+
+function isOwnedBy(user: { login: string } | null, login: string): boolean {
+  return Boolean(user && user.login.toLowerCase() === login.toLowerCase());
+}
+
+/**
+ * Load a review comment, refusing comments on other PRs or by other users
+ */
+async function requireOwnComment(target: ManagementTarget, commentId: number): Promise<GitHubReviewCommentData> {
+  const comment = await githubRequest<GitHubReviewCommentData>(
+    target.accessToken,
+    `${target.repoPath}/pulls/comments/${commentId}`
+  );
+  if (!comment.pull_request_url.endsWith(`/pulls/${target.identifier.prNumber}`)) {
+    throw new Error(`Comment ${commentId} is not on ${target.repoFullName}#${target.identifier.prNumber}.`);
+  }
+  if (!isOwnedBy(comment.user, target.login)) {
+    throw new Error(`Comment ${commentId} was written by @${comment.user?.login || 'ghost'}, not you. Only your own comments can be changed.`);
+  }
+  return comment;
+}
+
+/**
+ * Drop cached post results for the comment and its review, so the same
+ * content can be posted again instead of being reported as a duplicate
+ */
+function invalidateCommentResults(target: ManagementTarget, comment: GitHubReviewCommentData): void {
+  const tags = [commentTag(target.repoFullName, comment.id)];
+  if (comment.pull_request_review_id) {
+    tags.push(reviewTag(target.repoFullName, comment.pull_request_review_id));
+  }
+  idempotencyService.invalidateTags(tags);
+}
+
+// ============================================
+// Comment and Review Operations
+// ============================================
+
+/**
+ * Change the text of one of the user's review comments
+ */
+export async function editReviewComment(
+  userId: string,
+  prName: string,
+  commentId: number,
+  body: string
+): Promise<{ commentId: number; url: string; path: string; line: number | null }> {
+  const target = await resolveTarget(userId, prName);
+  const comment = await requireOwnComment(target, commentId);
+
+  const updated = await githubRequest<GitHubReviewCommentData>(
+    target.accessToken,
+    `${target.repoPath}/pulls/comments/${commentId}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body }),
+    }
+  );
+  invalidateCommentResults(target, comment);
+
+  console.log(`[ReviewManagement] Edited comment ${commentId} on ${target.repoFullName}#${target.identifier.prNumber}`);
+  return { commentId: updated.id, url: updated.html_url, path: updated.path, line: updated.line };
+}
+
+/**
+ * Delete one of the user's review comments
+ */
+export async function deleteReviewComment(
+  userId: string,
+  prName: string,
+  commentId: number
+): Promise<{ commentId: number; path: string; line: number | null }> {
+  const target = await resolveTarget(userId, prName);
+  const comment = await requireOwnComment(target, commentId);
+
+  await githubRequest(target.accessToken, `${target.repoPath}/pulls/comments/${commentId}`, {
+    method: 'DELETE',
+  });
+  invalidateCommentResults(target, comment);
+
+  console.log(`[ReviewManagement] Deleted comment ${commentId} on ${target.repoFullName}#${target.identifier.prNumber}`);
+  return { commentId, path: comment.path, line: comment.line };
+}
+
+/**
+ * Dismiss one of the user's approvals or change requests with a message
+ */
+export async function dismissReview(
+  userId: string,
+  prName: string,
+  reviewId: number,
+  message: string
+): Promise<{ reviewId: number; url: string; previousState: string }> {
+  const target = await resolveTarget(userId, prName);
+  const reviewPath = `${target.repoPath}/pulls/${target.identifier.prNumber}/reviews/${reviewId}`;
+
+  const review = await githubRequest<GitHubReviewData>(target.accessToken, reviewPath);
+  if (!isOwnedBy(review.user, target.login)) {
+    throw new Error(`Review ${reviewId} was submitted by @${review.user?.login || 'ghost'}, not you. Only your own reviews can be dismissed.`);
+  }
+  if (review.state !== 'APPROVED' && review.state !== 'CHANGES_REQUESTED') {
+    throw new Error(`Review ${reviewId} is ${review.state.toLowerCase().replace(/_/g, ' ')}; only approvals and change requests can be dismissed. Edit or delete its comments instead.`);
+  }
+
+  const dismissed = await githubRequest<GitHubReviewData>(target.accessToken, `${reviewPath}/dismissals`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, event: 'DISMISS' }),
+  });
+  idempotencyService.invalidateTags([reviewTag(target.repoFullName, reviewId)]);
+
+  console.log(`[ReviewManagement] Dismissed review ${reviewId} on ${target.repoFullName}#${target.identifier.prNumber}`);
+  return { reviewId, url: dismissed.html_url, previousState: review.state };
+}
@@ -0,0 +1,218 @@
+/**
+ * Review Policy
+ * Server-side safeguards checked before a review is submitted as APPROVE or
+ * REQUEST_CHANGES. Reviewing your own PR is always refused; the other rules
+ * are off unless configured:
+ *
+ *   REVIEW_POLICY_REQUIRE_GREEN_CI=true     every check on the head commit passed
+ *   REVIEW_POLICY_MIN_INLINE_COMMENTS=2     the review has at least this many inline comments
+ *   REVIEW_POLICY_REQUIRE_CONFIRMATION=true the user typed a code only they were shown
+ *   REVIEW_POLICY_EVENTS=APPROVE            events the rules above apply to (comma-separated)
+ */
+
+import crypto from 'crypto';
+import { getAuthenticatedUserLogin, type ParsedPRIdentifier } from './github-api.js';
+import { fetchPullRequestChecks } from './pr-checks.js';
+import type { ReviewPolicyRefusal, ReviewPolicyViolation } from './types.js';
+
+const CONFIRMATION_TTL = 10 * 60 * 1000; // 10 minutes
+const CONFIRMATION_CODE_LENGTH = 6;
+const CONFIRMATION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+
+type PolicyEvent = ReviewPolicyRefusal['event'];
+
+interface ReviewPolicyConfig {
+  requireGreenCI: boolean;
+  minInlineComments: number;
+  requireConfirmation: boolean;
+  events: PolicyEvent[];
+}
+
+/**
+ * A review was refused by the policy. Carries the structured refusal so
+ * tool responses can explain each violation, and the confirmation code
+ * separately: it goes to the user through the widget, never to the model.
+ */
+export class ReviewPolicyError extends Error {
+  constructor(
+    public readonly refusal: ReviewPolicyRefusal,
+    public readonly confirmationCode?: string
+  ) {
+    super(`Review policy refused ${refusal.event}: ${refusal.violations.map((v) => v.message).join(' ')}`);
+    this.name = 'ReviewPolicyError';
+  }
+}
+
+// Read on every check, so a restart isn't needed to change the policy
+function getPolicyConfig(): ReviewPolicyConfig {
+  const flag = (value: string | undefined) => /^(1|true|yes)$/i.test(value?.trim() || '');
+  const minInline = Number.parseInt(process.env.REVIEW_POLICY_MIN_INLINE_COMMENTS || '0', 10);
+  const events = (process.env.REVIEW_POLICY_EVENTS || 'APPROVE')
+    .split(',')
+    .map((event) => event.trim().toUpperCase())
+    .filter((event): event is PolicyEvent => event === 'APPROVE' || event === 'REQUEST_CHANGES');
+
+  return {
+    requireGreenCI: flag(process.env.REVIEW_POLICY_REQUIRE_GREEN_CI),
+    minInlineComments: Number.isNaN(minInline) ? 0 : Math.max(0, minInline),
+    requireConfirmation: flag(process.env.REVIEW_POLICY_REQUIRE_CONFIRMATION),
+    events,
+  };
+}
+
+// ============================================
+// Confirmation Codes
+// ============================================
+
+// scope -> the one live code for it; single use
+const confirmations = new Map<string, { code: string; expiresAt: number }>();
+
+/**
+ * What a code confirms: this user submitting this event on this PR head,
+ * with exactly this body and these inline comments
+ */
+function confirmationScope(
+  userId: string,
+  identifier: ParsedPRIdentifier,
+  event: PolicyEvent,
+  headSha: string,
+  content: string
+): string {
+  const { owner, repo, prNumber } = identifier;
+  const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+  return `${userId}:${`${owner}/${repo}#${prNumber}`.toLowerCase()}:${event}:${headSha.toLowerCase()}:${contentHash}`;
+}
+
+// Short enough to type, and a wrong guess replaces the code, so guessing doesn't pay
+function issueConfirmation(scope: string): { code: string; expiresAt: number } {
+  const now = Date.now();
+  for (const [key, entry] of confirmations) {
+    if (entry.expiresAt < now) confirmations.delete(key);
+  }
+  const code = Array.from(
+    crypto.randomBytes(CONFIRMATION_CODE_LENGTH),
+    (byte) => CONFIRMATION_CODE_ALPHABET[byte % CONFIRMATION_CODE_ALPHABET.length]
+  ).join('');
+  const expiresAt = now + CONFIRMATION_TTL;
+  confirmations.set(scope, { code, expiresAt });
+  return { code, expiresAt };
+}
+
+/**
+ * Whether code is the live one issued for exactly this user, PR head, event
+ * and content. Case, spaces and dashes are ignored, since the user types it.
+ * The code stays valid until the review is actually submitted.
+ */
+function checkConfirmation(code: string, scope: string): boolean {
+  const entry = confirmations.get(scope);
+  const typed = code.toUpperCase().replace(/[\s-]/g, '');
+  if (!entry || entry.expiresAt < Date.now() || typed.length !== entry.code.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(typed), Buffer.from(entry.code));
+}
+
+/**
+ * Returned by enforceReviewPolicy when a review may be submitted. Call
+ * markSubmitted once GitHub has accepted it, so a confirmation code is only
+ * used up by a review that went through.
+ */
+export interface ReviewPolicyClearance {
+  markSubmitted(): void;
+}
+
+// ============================================
+// Policy Check
+// ============================================
+
+/**
+ * Check a review against the policy before it is submitted. Throws a
+ * ReviewPolicyError listing every violated rule; COMMENT reviews always pass.
+ * A confirmation code is only issued (and only accepted) once every other
+ * rule passes, so the user confirms a review that can actually go through.
+ * content is what will be submitted (body and inline comments) as a stable
+ * string; changing it after confirming needs a new code.
+ */
+export async function enforceReviewPolicy(input: {
+  userId: string;
+  accessToken: string;
+  username?: string;
+  identifier: ParsedPRIdentifier;
+  author: string;
+  headSha: string;
+  event: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+  inlineComments: number;
+  content: string;
+  confirmationCode?: string;
+}): Promise<ReviewPolicyClearance> {
+  const { event } = input;
+  const clearance: ReviewPolicyClearance = { markSubmitted: () => {} };
+  if (event === 'COMMENT') return clearance;
+
+  const { owner, repo, prNumber } = input.identifier;
+  const violations: ReviewPolicyViolation[] = [];
+
+  // GitHub refuses these as well; checking here gives a reason the user can act on
+  const login = input.username || (await getAuthenticatedUserLogin(input.accessToken));
+  if (login.toLowerCase() === input.author.toLowerCase()) {
+    violations.push({
+      rule: 'self_review',
+      message: `You opened ${owner}/${repo}#${prNumber}, so you can't ${event === 'APPROVE' ? 'approve it' : 'request changes on it'}. Post a COMMENT review instead.`,
+    });
+  }
+
+  const config = getPolicyConfig();
+  if (violations.length === 0 && config.events.includes(event)) {
+    if (config.minInlineComments > 0 && input.inlineComments < config.minInlineComments) {
+      violations.push({
+        rule: 'min_inline_comments',
+        message: `This review has ${input.inlineComments} inline comment(s); the policy requires at least ${config.minInlineComments} before ${event}.`,
+      });
+    }
+
+    if (config.requireGreenCI) {
+      const checks = await fetchPullRequestChecks(input.accessToken, owner, repo, input.headSha);
+      if (checks.overall !== 'success') {
+        const detail = checks.overall === 'none'
+          ? 'no checks have reported on the head commit'
+          : `CI is ${checks.overall} (${checks.counts.failure} failing, ${checks.counts.pending} pending)`;
+        violations.push({ rule: 'green_ci', message: `The policy requires passing CI before ${event}, but ${detail}.` });
+      }
+    }
+
+    // Confirming only makes sense once nothing else would block the review
+    if (config.requireConfirmation && violations.length === 0) {
+      const scope = confirmationScope(input.userId, input.identifier, event, input.headSha, input.content);
+      if (input.confirmationCode && checkConfirmation(input.confirmationCode, scope)) {
+        clearance.markSubmitted = () => {
+          confirmations.delete(scope);
+        };
+      } else {
+        const { code, expiresAt } = issueConfirmation(scope);
+        console.log(`[ReviewPolicy] Issued confirmation for ${event} on ${owner}/${repo}#${prNumber}`);
+        throw new ReviewPolicyError(
+          {
+            event,
+            violations: [{
+              rule: 'confirmation',
+              message: input.confirmationCode
+                ? 'The confirmation code is wrong, expired or already used, or the review changed since it was shown. The user has been shown a new code.'
+                : `The policy requires the user to explicitly confirm ${event} before it is submitted.`,
+            }],
+            prName: `${owner}/${repo}#${prNumber}`,
+            headSha: input.headSha,
+            confirmationRequired: true,
+            confirmationExpiresAt: new Date(expiresAt).toISOString(),
+          },
+          code
+        );
+      }
+    }
+  }
+
+  if (violations.length > 0) {
+    console.log(`[ReviewPolicy] Refused ${event} on ${owner}/${repo}#${prNumber}: ${violations.map((v) => v.rule).join(', ')}`);
+    throw new ReviewPolicyError({ event, violations, prName: `${owner}/${repo}#${prNumber}`, headSha: input.headSha });
+  }
+  return clearance;
+}
@@ -0,0 +1,182 @@
+/**
+ * Review Threads
+ * Reply to, resolve and unresolve existing review threads on a PR.
+ * Threads are addressed by their GraphQL node id (from get_pr_discussion).
+ */
+
+import crypto from 'crypto';
+import { githubGraphQL } from './github-client.js';
+import { requireGitHubSession, resolvePRIdentifier, type ParsedPRIdentifier } from './github-api.js';
+import { commentTag, idempotencyService } from './idempotency-service.js';
+import type { ReviewThreadReplyResult } from './types.js';
+
+interface ThreadComment {
+  databaseId: number;
+  url: string;
+  body: string;
+  author: { login: string } | null;
+}
+
+interface ThreadInfo {
+  id: string;
+  isResolved: boolean;
+  comments: ThreadComment[];
+}
+
+const THREAD_QUERY = `
+  query($id: ID!) {
+    node(id: $id) {
+      ... on PullRequestReviewThread {
+        id
+        isResolved
+        pullRequest { number repository { nameWithOwner } }
+        comments(last: 50) {
+          nodes { databaseId url body author { login } }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Load a thread and make sure it belongs to the given PR, so a thread id
+ * from one PR can't be used to act on another
+ */
+async function requireThreadOnPR(
+  accessToken: string,
+  { owner, repo, prNumber }: ParsedPRIdentifier,
+  threadId: string
+): Promise<ThreadInfo> {
+  const data = await githubGraphQL<{
+    node: {
+      id: string;
+      isResolved: boolean;
+      pullRequest: { number: number; repository: { nameWithOwner: string } };
+      comments: { nodes: ThreadComment[] };
+    } | null;
+  }>(accessToken, THREAD_QUERY, { id: threadId });
+
+  const thread = data.node;
+  if (!thread || !thread.pullRequest) {
+    throw new Error(`Review thread ${threadId} not found. Use get_pr_discussion to get thread ids.`);
+  }
+  if (
+    thread.pullRequest.number !== prNumber ||
+    thread.pullRequest.repository.nameWithOwner.toLowerCase() !== `${owner}/${repo}`.toLowerCase()
+  ) {
+    throw new Error(`Review thread ${threadId} belongs to a different pull request.`);
+  }
+  return { id: thread.id, isResolved: thread.isResolved, comments: thread.comments.nodes };
+}
+
+async function setThreadResolved(accessToken: string, threadId: string, resolved: boolean): Promise<boolean> {
+  const mutation = resolved
+    ? `mutation($id: ID!) { resolveReviewThread(input: { threadId: $id }) { thread { isResolved } } }`
+    : `mutation($id: ID!) { unresolveReviewThread(input: { threadId: $id }) { thread { isResolved } } }`;
+  const data = await githubGraphQL<Record<string, { thread: { isResolved: boolean } }>>(
+    accessToken,
+    mutation,
+    { id: threadId }
+  );
+  return Object.values(data)[0].thread.isResolved;
+}
+
+// ============================================
+// Thread Operations
+// ============================================
+
+/**
+ * Reply in an existing review thread, optionally resolving it afterwards.
+ * Uses the same idempotency protection as review posting: a retried call
+ * (same key, or same thread and body) returns the first result, and a reply
+ * identical to the user's latest comment in the thread isn't posted again.
+ */
+export async function replyToReviewThread(
+  userId: string,
+  prName: string,
+  threadId: string,
+  body: string,
+  idempotencyKey: string,
+  options: { resolve?: boolean } = {}
+): Promise<ReviewThreadReplyResult> {
+  const { accessToken, username } = requireGitHubSession(userId);
+
+  // Keys are scoped to the user, the resolved PR and the thread, so the same
+  // key reused elsewhere never returns another reply's result.
+  const identifier = await resolvePRIdentifier(accessToken, prName, username);
+  const scope = `${userId}:${`${identifier.owner}/${identifier.repo}#${identifier.prNumber}`.toLowerCase()}:${threadId}`;
+  const payloadHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ body: body.trim(), resolve: Boolean(options.resolve) }))
+    .digest('hex');
+  const payloadKey = `idempotency:reply:content:${scope}:${payloadHash}`;
+  const idempKey = `idempotency:reply:key:${scope}:${idempotencyKey}`;
+
+  for (const key of [payloadKey, idempKey]) {
+    const cached = idempotencyService.getResult<ReviewThreadReplyResult>(key);
+    if (cached) {
+      console.log(`[Idempotency] Returning cached reply result for ${key}`);
+      return cached;
+    }
+  }
+
+  const thread = await requireThreadOnPR(accessToken, identifier, threadId);
+
+  // Persistent duplicate check: survives restarts that clear the idempotency cache
+  const latest = thread.comments[thread.comments.length - 1];
+  let result: ReviewThreadReplyResult;
+  if (
+    latest &&
+    username &&
+    latest.author?.login.toLowerCase() === username.toLowerCase() &&
+    latest.body.trim() === body.trim()
+  ) {
+    console.log(`[ReviewThreads] Identical reply already in thread ${threadId}, skipping post`);
+    result = { commentId: latest.databaseId, url: latest.url, threadId, resolved: thread.isResolved, duplicate: true };
+  } else {
+    const data = await githubGraphQL<{
+      addPullRequestReviewThreadReply: { comment: { databaseId: number; url: string } };
+    }>(
+      accessToken,
+      `mutation($threadId: ID!, $body: String!) {
+        addPullRequestReviewThreadReply(input: { pullRequestReviewThreadId: $threadId, body: $body }) {
+          comment { databaseId url }
+        }
+      }`,
+      { threadId, body }
+    );
+    const comment = data.addPullRequestReviewThreadReply.comment;
+    result = { commentId: comment.databaseId, url: comment.url, threadId, resolved: thread.isResolved, duplicate: false };
+  }
+
+  if (options.resolve && !result.resolved) {
+    result.resolved = await setThreadResolved(accessToken, threadId, true);
+  }
+
+  const tags = [commentTag(`${identifier.owner}/${identifier.repo}`, result.commentId)];
+  idempotencyService.markProcessed(idempKey, result, tags);
+  idempotencyService.markProcessed(payloadKey, result, tags);
+
+  return result;
+}
+
+/**
+ * Resolve or unresolve a review thread
+ */
+export async function setReviewThreadResolved(
+  userId: string,
+  prName: string,
+  threadId: string,
+  resolved: boolean
+): Promise<{ threadId: string; resolved: boolean; changed: boolean }> {
+  const { accessToken, username } = requireGitHubSession(userId);
+  const identifier = await resolvePRIdentifier(accessToken, prName, username);
+  const thread = await requireThreadOnPR(accessToken, identifier, threadId);
+
+  if (thread.isResolved === resolved) {
+    return { threadId, resolved, changed: false };
+  }
+
+  console.log(`[ReviewThreads] ${resolved ? 'Resolving' : 'Unresolving'} thread ${threadId}`);
+  return { threadId, resolved: await setThreadResolved(accessToken, threadId, resolved), changed: true };
+}
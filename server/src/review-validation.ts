@@ -0,0 +1,281 @@
+/**
+ * Review Validation
+ * Checks inline review comments against the PR's parsed diff before they
+ * are posted, so one misplaced comment can't make GitHub reject the whole
+ * review with a 422.
+ */
+
+import { findDiffLine, parsePatch } from './diff-parser.js';
+import type {
+  CommentValidationResult,
+  DiffHunk,
+  FileChange,
+  InvalidCommentStrategy,
+  PullRequestContext,
+  ReviewComment,
+} from './types.js';
+
+const SNAP_MAX_DISTANCE = 3; // Lines; farther misses go to the review body instead
+
+/**
+ * Inline comment in the shape the GitHub reviews API takes
+ */
+export interface GitHubReviewComment {
+  path: string;
+  line: number;
+  side: 'LEFT' | 'RIGHT';
+  start_line?: number;
+  start_side?: 'LEFT' | 'RIGHT';
+  body: string;
+}
+
+export interface ValidatedReview {
+  inlineComments: GitHubReviewComment[];
+  reviewBody: string;  // General comments, then any comments moved out of the diff
+  results: CommentValidationResult[];
+}
+
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Link to a line (or range) of a file at the commit the review is made against
+ */
+function permalink(
+  context: PullRequestContext,
+  path: string,
+  line: number,
+  side: 'LEFT' | 'RIGHT',
+  startLine?: number
+): string {
+  const repoUrl = context.pr.htmlUrl.replace(/\/pull\/\d+$/, '');
+  const sha = side === 'LEFT' ? context.pr.baseSha : context.pr.headSha;
+  const anchor = startLine !== undefined ? `L${startLine}-L${line}` : `L${line}`;
+  return `${repoUrl}/blob/${sha}/${encodePath(path)}#${anchor}`;
+}
+
+/**
+ * Fence for a code block that can't be closed early by backticks in its content
+ */
+function codeFence(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+/**
+ * Append a GitHub suggestion block, which renders with a "Commit suggestion" button
+ */
+export function withSuggestion(body: string, suggestion: string): string {
+  const content = suggestion.replace(/\r?\n$/, '');
+  const fence = codeFence(content);
+  return `${body}\n\n${fence}suggestion\n${content}\n${fence}`;
+}
+
+/**
+ * Line ranges per hunk that accept comments on a side, e.g. "10-24, 40-52"
+ */
+function describeCommentableRanges(hunks: DiffHunk[], side: 'LEFT' | 'RIGHT'): string {
+  const ranges = hunks
+    .map((hunk) => {
+      const numbers = hunk.lines
+        .filter((line) => line.commentable)
+        .map((line) => (side === 'LEFT' ? line.oldLine : line.newLine))
+        .filter((n): n is number => n !== null);
+      if (numbers.length === 0) return null;
+      const first = Math.min(...numbers);
+      const last = Math.max(...numbers);
+      return first === last ? `${first}` : `${first}-${last}`;
+    })
+    .filter(Boolean);
+  return ranges.length > 0 ? ranges.join(', ') : 'none';
+}
+
+function nearestCommentableLine(hunks: DiffHunk[], line: number, side: 'LEFT' | 'RIGHT'): number | undefined {
+  let nearest: number | undefined;
+  for (const hunk of hunks) {
+    for (const diffLine of hunk.lines) {
+      const number = side === 'LEFT' ? diffLine.oldLine : diffLine.newLine;
+      if (number === null || !diffLine.commentable) continue;
+      if (nearest === undefined || Math.abs(number - line) < Math.abs(nearest - line)) {
+        nearest = number;
+      }
+    }
+  }
+  return nearest;
+}
+
+function describeMissingPatch(file: FileChange): string {
+  switch (file.patchUnavailableReason) {
+    case 'too_large':
+      return `"${file.filename}" has no diff to comment on (GitHub omits diffs this large).`;
+    case 'binary':
+      return `"${file.filename}" is a binary file (or only its mode changed) and can't take inline comments.`;
+    case 'empty':
+      return `"${file.filename}" is an empty file and has no lines to comment on.`;
+    default:
+      return `"${file.filename}" has no changed lines to comment on.`;
+  }
+}
+
+/**
+ * Check every inline comment (single line, range or suggestion) against
+ * the diff and decide where it goes. General comments pass through to the
+ * review body.
+ */
+export function validateReviewComments(
+  comments: ReviewComment[],
+  context: PullRequestContext,
+  strategy: InvalidCommentStrategy
+): ValidatedReview {
+  const filesByPath = new Map(context.files.map((file) => [file.filename, file]));
+  const hunksByPath = new Map<string, DiffHunk[]>();
+  const getHunks = (file: FileChange): DiffHunk[] => {
+    let hunks = hunksByPath.get(file.filename);
+    if (!hunks) {
+      hunks = parsePatch(file.patch || '');
+      hunksByPath.set(file.filename, hunks);
+    }
+    return hunks;
+  };
+
+  const validated: ValidatedReview = { inlineComments: [], reviewBody: '', results: [] };
+  const generalBodies: string[] = [];
+  const movedBodies: string[] = [];
+
+  comments.forEach((comment, index) => {
+    if (!comment.path || !comment.line) {
+      if (comment.body) generalBodies.push(comment.body);
+      validated.results.push({ index, status: 'general' });
+      return;
+    }
+
+    const path = comment.path;
+    const line = comment.line;
+    const side = comment.side || 'RIGHT';
+    const startSide = comment.start_side || side;
+    const startLine = comment.start_line !== undefined && comment.start_line !== line
+      ? comment.start_line
+      : undefined;
+    const suggestion = comment.suggestion;
+    const result: CommentValidationResult = {
+      index,
+      path,
+      line,
+      side,
+      ...(startLine !== undefined && { startLine }),
+      status: 'inline',
+    };
+
+    const place = (postedLine: number) => {
+      validated.inlineComments.push({
+        path,
+        line: postedLine,
+        side,
+        ...(startLine !== undefined && { start_line: startLine, start_side: startSide }),
+        body: suggestion !== undefined ? withSuggestion(comment.body, suggestion) : comment.body,
+      });
+    };
+    const moveToBody = (error: string) => {
+      const location = startLine !== undefined ? `${path}#L${startLine}-L${line}` : `${path}#L${line}`;
+      let entry = `- **[${location}](${permalink(context, path, line, side, startLine)})**: ${comment.body}`;
+      if (suggestion !== undefined) {
+        // Suggestion blocks only work inline, so show it as a plain code block
+        const fence = codeFence(suggestion);
+        entry += `\n\n  Suggested change:\n  ${fence}\n${suggestion.replace(/\r?\n$/, '').replace(/^/gm, '  ')}\n  ${fence}`;
+      }
+      movedBodies.push(entry);
+      validated.results.push({ ...result, status: 'moved_to_body', error });
+    };
+    const reject = (error: string) => {
+      validated.results.push({ ...result, status: 'rejected', error });
+    };
+    const handleInvalid = (error: string, snapTo?: number) => {
+      if (strategy === 'reject') return reject(error);
+      if (strategy === 'snap' && snapTo !== undefined) {
+        place(snapTo);
+        validated.results.push({ ...result, status: 'snapped', postedLine: snapTo, error });
+        return;
+      }
+      moveToBody(error);
+    };
+
+    if (!Number.isInteger(line) || line < 1) {
+      return reject(`line must be a positive integer (got ${line}).`);
+    }
+    if (side !== 'LEFT' && side !== 'RIGHT') {
+      return reject(`side must be "LEFT" or "RIGHT" (got "${side}").`);
+    }
+    if (startLine !== undefined) {
+      if (!Number.isInteger(startLine) || startLine < 1) {
+        return reject(`start_line must be a positive integer (got ${startLine}).`);
+      }
+      if (startSide !== 'LEFT' && startSide !== 'RIGHT') {
+        return reject(`start_side must be "LEFT" or "RIGHT" (got "${startSide}").`);
+      }
+      if (startSide === side && startLine > line) {
+        return reject(`start_line (${startLine}) must come before line (${line}).`);
+      }
+    }
+    if (suggestion !== undefined && (side !== 'RIGHT' || startSide !== 'RIGHT')) {
+      return reject('A suggestion replaces lines of the new code, so it needs side "RIGHT".');
+    }
+
+    const file = filesByPath.get(path);
+    if (!file) {
+      if (context.filesTruncated) {
+        // Beyond GitHub's file listing limit; let GitHub judge the placement
+        place(line);
+        validated.results.push(result);
+        return;
+      }
+      return handleInvalid(`"${path}" is not changed in this PR.`);
+    }
+    if (!file.patch) {
+      return handleInvalid(describeMissingPatch(file));
+    }
+
+    const hunks = getHunks(file);
+    const end = findDiffLine(hunks, line, side);
+
+    if (startLine !== undefined) {
+      // Ranges are never snapped: shifting one end would change what is commented on
+      const start = findDiffLine(hunks, startLine, startSide);
+      if (!start || !end) {
+        const missing = !start ? `start_line ${startLine} (${startSide})` : `line ${line} (${side})`;
+        return handleInvalid(
+          `Lines ${startLine}-${line} of "${path}" are not all in the diff: ${missing} is outside it. Commentable ${side} lines: ${describeCommentableRanges(hunks, side)}.`
+        );
+      }
+      if (start.hunk !== end.hunk) {
+        return handleInvalid(
+          `Lines ${startLine}-${line} of "${path}" span more than one hunk; a multi-line comment must stay within one. Hunks cover ${side} lines: ${describeCommentableRanges(hunks, side)}.`
+        );
+      }
+      place(line);
+      validated.results.push(result);
+      return;
+    }
+
+    if (end) {
+      place(line);
+      validated.results.push(result);
+      return;
+    }
+
+    const nearest = nearestCommentableLine(hunks, line, side);
+    const error = `Line ${line} (${side}) of "${path}" is not in the diff. Commentable ${side} lines: ${describeCommentableRanges(hunks, side)}.`;
+    // A suggestion replaces exactly the lines it targets, so it is never moved
+    const snapTo = suggestion === undefined && nearest !== undefined && Math.abs(nearest - line) <= SNAP_MAX_DISTANCE
+      ? nearest
+      : undefined;
+    handleInvalid(error, snapTo);
+  });
+
+  validated.reviewBody = [
+    ...generalBodies,
+    movedBodies.length > 0 ? `**Comments on lines outside the diff:**\n${movedBodies.join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return validated;
+}
@@ -61,6 +61,9 @@ export interface GitHubPullRequest {
     name: string;
     slug: string;
   }>;
+  comments?: number;  // Conversation comment count
+  review_decision?: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;  // GraphQL search only
+  ci_status?: 'success' | 'failure' | 'pending' | null;  // Head commit check rollup (GraphQL search only)
 }
 
 export interface GitHubTeam {
@@ -72,11 +75,31 @@ export interface GitHubTeam {
   };
 }
 
+export type PullRequestSearchState = 'open' | 'closed' | 'merged' | 'all';
+
+export interface ListPullRequestsOptions {
+  specifiedUser?: string;
+  limit?: number;
+  state?: PullRequestSearchState;  // Defaults to 'open' ('merged' when a merged range is given)
+  dateFrom?: string;
+  dateTo?: string;
+  mergedFrom?: string;
+  mergedTo?: string;
+  repository?: string;
+  filterType?: 'authored' | 'reviewing' | 'involved';
+  cursor?: string;  // From a previous result's nextCursor; other options are ignored
+}
+
+export type ListPullRequestsFilters = Omit<ListPullRequestsOptions, 'cursor'>;
+
 export interface ListPullRequestsResult {
   pullRequests: GitHubPullRequest[];
   searchType: 'authored' | 'reviewing' | 'involved' | 'user_authored';
+  state: PullRequestSearchState;
   searchedUser?: string;
-  totalCount: number;
+  totalCount: number;  // Total matches reported by the search API
+  nextCursor?: string;  // Present when more results are available
+  filters: ListPullRequestsFilters;  // The options the search started with, kept across pages
 }
 
 // PR Context Types (for code review)
@@ -88,6 +111,60 @@ export interface FileChange {
   changes: number;
   patch?: string;  // Unified diff
   previous_filename?: string;  // For renamed files
+  truncated?: boolean;  // GitHub omitted the patch because the diff is too large
+  patchUnavailableReason?: 'too_large' | 'binary' | 'empty' | 'deferred';  // Set when patch is missing; 'binary' includes mode-only changes, 'deferred' = on another page
+  category?: 'source' | 'test' | 'generated';  // Review priority, in that order
+  patchClipped?: boolean;  // Patch was cut at a line boundary to fit the character budget
+  hunks?: DiffHunk[];  // Parsed patch, returned instead of 'patch' when diff_format is "hunks"
+}
+
+// What an incremental ("since") view of a PR diff starts from
+export interface IncrementalDiffSummary {
+  mode: 'last_review' | 'commit' | 'date';
+  requested: string;  // The since value as given
+  fromSha: string | null;  // Commit the diff starts from; null when the full PR diff is shown
+  reviewedAt?: string;  // When the user's last review was submitted (last_review mode)
+  newCommits: CommitSummary[];
+  totalNewCommits: number;
+  excludedFiles: number;  // Changed since fromSha but not part of the PR (e.g. base branch merged in)
+  fallbackReason?: string;  // Why the full PR diff is shown instead
+}
+
+// Parsed diff lines. Comment on additions/context with side RIGHT + newLine,
+// on deletions with side LEFT + oldLine.
+export interface DiffLine {
+  type: 'context' | 'addition' | 'deletion';
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+  side: 'LEFT' | 'RIGHT';
+  commentable: boolean;
+}
+
+export interface DiffHunk {
+  header: string;  // The "@@ -a,b +c,d @@" line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string;  // Function/class context after the header, if any
+  lines: DiffLine[];
+}
+
+export interface PullRequestContextPage {
+  offset: number;  // Index of the first file with a diff on this page (priority order)
+  fileCount: number;  // Files whose diff is on this page
+  totalFiles: number;
+  maxChars: number;  // Diff character budget used for this page
+  nextCursor?: string;  // Pass as file_cursor to get the next page of diffs
+}
+
+export interface PathFilterSummary {
+  include: string[];
+  exclude: string[];
+  hiddenFiles: number;  // Files left out of 'files' by the filters
+  additions: number;  // Totals over the files that matched
+  deletions: number;
 }
 
 export interface PullRequestContext {
@@ -116,25 +193,156 @@ export interface PullRequestContext {
   additions: number;
   deletions: number;
   changedFiles: number;
+  filesTruncated: boolean;  // GitHub stops listing files after 3000
+  page?: PullRequestContextPage;  // Set when diffs are paginated by budget
+  pathFilter?: PathFilterSummary;  // Set when include/exclude globs were applied to files
+  discussion?: PullRequestDiscussion;  // Set when requested with include_discussion
+  since?: IncrementalDiffSummary;  // Set when only changes since a point were requested
+  checks?: PullRequestChecks;  // Set when requested with include_checks
   mergeable?: boolean;
   mergeableState?: string;
   labels: Array<{ name: string; color: string }>;
   reviewers: Array<{ login: string; avatar_url: string }>;
 }
 
+// PR Discussion Types (existing review threads and comments)
+export interface DiscussionComment {
+  id: number;
+  author: string;
+  body: string;
+  createdAt: string;
+  url: string;
+}
+
+export interface ReviewThread {
+  id: string;  // GraphQL node id (used to reply to or resolve the thread)
+  path: string;
+  line: number | null;  // Null when the thread is outdated and no longer maps onto the diff
+  startLine: number | null;
+  originalLine: number | null;  // Line in the commit the thread was started on
+  side: 'LEFT' | 'RIGHT';
+  isResolved: boolean;
+  isOutdated: boolean;
+  resolvedBy?: string;
+  comments: DiscussionComment[];
+  totalComments: number;
+}
+
+export interface ReviewerState {
+  reviewId: number;
+  login: string;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  submittedAt: string | null;
+  url: string;
+}
+
+export interface PullRequestDiscussion {
+  threads: ReviewThread[];
+  issueComments: DiscussionComment[];  // Top-level conversation comments
+  reviews: ReviewerState[];  // Each reviewer's latest review
+  truncated: boolean;  // More threads or comments exist than were fetched
+  clipped?: { threads: number; issueComments: number };  // Left out to fit get_pr_context's max_chars
+}
+
+export interface ReviewThreadReplyResult {
+  commentId: number;
+  url: string;
+  threadId: string;
+  resolved: boolean;  // Thread state after the reply
+  duplicate: boolean;  // The same reply was already posted; nothing new was sent
+}
+
+// Review Request Types
+export interface ReviewRequestResult {
+  prUrl: string;
+  action: 'request' | 'remove';
+  reviewers: string[];  // Logins added or removed by this call
+  teams: string[];  // Team slugs added or removed by this call
+  rejected: Array<{ name: string; reason: string }>;  // Not changed, with why
+  requestedReviewers: string[];  // Everyone requested after the change
+  requestedTeams: string[];
+}
+
+// Triage Types (labels, assignees, milestones)
+export interface TriageRejection {
+  name: string;
+  reason: string;
+  suggestions?: string[];  // Closest existing names, when nothing matched well enough
+}
+
+export interface LabelUpdateResult {
+  prUrl: string;
+  action: 'add' | 'remove';
+  changed: string[];  // Label names as they exist in the repo
+  matched: Array<{ requested: string; label: string }>;  // Inputs that only matched approximately
+  rejected: TriageRejection[];
+  labels: string[];  // Labels on the PR after the change
+}
+
+export interface AssigneeUpdateResult {
+  prUrl: string;
+  added: string[];
+  removed: string[];
+  rejected: TriageRejection[];
+  assignees: string[];  // Assignees after the change
+}
+
+export interface MilestoneUpdateResult {
+  prUrl: string;
+  milestone: { number: number; title: string; dueOn: string | null } | null;
+  previous: string | null;  // Title of the milestone it replaced
+}
+
+// File Content Types (full files at a PR's head or base commit)
+export interface FileContentResult {
+  path: string;
+  ref: 'head' | 'base';
+  commitSha: string;
+  blobSha: string;
+  size: number;  // Bytes
+  htmlUrl: string;
+  binary: boolean;  // Content is omitted for binary files
+  tooLarge: boolean;  // Content is omitted for files over 10 MB
+  totalLines: number;
+  startLine: number;  // 1-based, inclusive
+  endLine: number;  // 1-based, inclusive
+  content: string;
+  truncated: boolean;  // More lines exist than were returned; request a range to see them
+}
+
 // Review Comment Types (for posting PR reviews)
 export interface ReviewComment {
   body: string;
   path?: string;       // File path for inline comments
-  line?: number;       // Line number for inline comments
+  line?: number;       // Line number for inline comments (last line of a range)
   side?: 'LEFT' | 'RIGHT';  // Side of the diff (LEFT = old, RIGHT = new)
+  start_line?: number;  // First line of a multi-line comment
+  start_side?: 'LEFT' | 'RIGHT';  // Side of start_line (defaults to side)
+  suggestion?: string;  // Replacement for the commented lines, posted as a suggestion block
 }
 
+// What to do with an inline comment whose path/line isn't in the diff:
+// snap = move to the nearest commentable line (within a few lines, else body),
+// body = move into the review body with a permalink, reject = drop it
+export type InvalidCommentStrategy = 'snap' | 'body' | 'reject';
+
 export interface PostReviewRequest {
   prName: string;
   comments: ReviewComment[];
   event?: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
   idempotencyKey: string;
+  onInvalidComment?: InvalidCommentStrategy;
+}
+
+export interface CommentValidationResult {
+  index: number;  // Position in the submitted comments array
+  path?: string;
+  line?: number;
+  side?: 'LEFT' | 'RIGHT';
+  startLine?: number;
+  status: 'inline' | 'general' | 'snapped' | 'moved_to_body' | 'rejected' | 'duplicate';
+  postedLine?: number;  // Line actually used, when snapped
+  error?: string;  // Why the comment couldn't go where it was aimed
 }
 
 export interface PostReviewResponse {
@@ -144,6 +352,175 @@ export interface PostReviewResponse {
   reviewUrl?: string;  // Direct link to the review comment
   commentsPosted: number;
   message: string;
+  commentResults?: CommentValidationResult[];  // Per-comment outcome of diff validation
+  staleReview?: StaleReviewInfo;  // Set when nothing was posted because the PR head moved
+}
+
+export interface CommitSummary {
+  sha: string;
+  message: string;  // First line only
+  author: string;  // GitHub login, or the git author name when not linked to an account
+  date: string | null;
+}
+
+export interface PullRequestCommit {
+  sha: string;
+  headline: string;  // First line of the message
+  message: string;  // Full message
+  author: string;  // GitHub login, or the git author name when not linked to an account
+  date: string | null;
+  verified: boolean;  // Signature verified by GitHub
+  verificationReason: string;  // e.g. "valid", "unsigned", "unknown_key"
+  isMerge: boolean;
+  url: string;
+}
+
+export interface PullRequestCommitList {
+  prUrl: string;
+  commits: PullRequestCommit[];  // Oldest first
+  totalCommits: number;
+  truncated: boolean;  // GitHub lists at most 250 commits per pull request
+}
+
+// One commit's diff, paged like PR context diffs
+export interface CommitDiff {
+  commit: PullRequestCommit;
+  files: FileChange[];
+  additions: number;
+  deletions: number;
+  filesTruncated: boolean;  // GitHub lists at most 300 files per commit
+  pathFilter?: PathFilterSummary;
+  page: PullRequestContextPage;
+}
+
+// CI Types (commit statuses and check runs on a PR's head commit)
+export type CheckState = 'success' | 'failure' | 'pending' | 'neutral' | 'skipped';
+
+export interface CheckAnnotation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  level: 'notice' | 'warning' | 'failure';
+  title: string | null;
+  message: string;
+}
+
+export interface CheckSummary {
+  name: string;
+  source: 'check_run' | 'status';  // Checks API run, or a legacy commit status
+  state: CheckState;
+  conclusion: string | null;  // GitHub's own conclusion or status state
+  app: string | null;  // e.g. "GitHub Actions"
+  startedAt: string | null;
+  completedAt: string | null;
+  durationSeconds: number | null;
+  detailsUrl: string | null;
+  annotations?: CheckAnnotation[];  // Failed check runs only
+}
+
+export interface PullRequestChecks {
+  headSha: string;
+  overall: 'success' | 'failure' | 'pending' | 'none';  // none: no CI configured
+  counts: Record<CheckState, number>;
+  checks: CheckSummary[];  // Failures first
+  truncated: boolean;  // More checks exist than were fetched; overall is then at best 'pending'
+}
+
+// PR Action Types
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+export interface MergePullRequestResult {
+  merged: boolean;
+  prUrl: string;
+  method: MergeMethod;
+  sha?: string;  // Merge commit SHA
+  alreadyMerged?: boolean;
+  message: string;
+  // Why the merge wasn't attempted (or GitHub refused it)
+  blockedReason?:
+    | 'closed'
+    | 'draft'
+    | 'head_changed'
+    | 'conflicts'
+    | 'blocked'
+    | 'behind'
+    | 'checks_failing'
+    | 'checks_pending'
+    | 'mergeability_unknown'
+    | 'not_allowed';
+  mergeableState?: string;
+  failingChecks?: string[];
+  pendingChecks?: string[];
+  headChanged?: StaleReviewInfo;
+}
+
+export interface DraftStateResult {
+  prUrl: string;
+  draft: boolean;  // State after the call
+  changed: boolean;  // False when the PR was already in that state
+}
+
+export type BranchUpdateMethod = 'merge' | 'rebase';
+
+export interface BranchUpdateResult {
+  prUrl: string;
+  method: BranchUpdateMethod;
+  requested: boolean;  // An update was sent; false when the branch was already up to date
+  behindBy: number | null;  // Base commits missing from the branch, if known
+  headSha: string;  // Head before the update; GitHub replaces it once the update is applied
+}
+
+// Review Policy Types (safeguards for APPROVE and REQUEST_CHANGES)
+export type ReviewPolicyRule = 'self_review' | 'green_ci' | 'min_inline_comments' | 'confirmation';
+
+export interface ReviewPolicyViolation {
+  rule: ReviewPolicyRule;
+  message: string;
+}
+
+export interface ReviewPolicyRefusal {
+  event: 'APPROVE' | 'REQUEST_CHANGES';
+  violations: ReviewPolicyViolation[];
+  prName: string;
+  headSha: string;
+  // Set when confirmation is the only thing missing. The code itself is only
+  // shown to the user (in the widget), who types it back to confirm.
+  confirmationRequired?: boolean;
+  confirmationExpiresAt?: string;
+}
+
+// How the PR head changed since the commit a review was written against
+export interface StaleReviewInfo {
+  reviewedSha: string;
+  headSha: string;
+  relation: 'ahead' | 'diverged';  // diverged: history was rewritten (force-push or rebase)
+  newCommits: CommitSummary[];
+  totalNewCommits: number;
+}
+
+// Pending Review Types (draft reviews built up over several tool calls)
+export interface PendingReviewComment {
+  id: number;
+  path: string;
+  line: number | null;
+  startLine: number | null;
+  side: 'LEFT' | 'RIGHT';
+  body: string;
+}
+
+export interface PendingReview {
+  reviewId: number;
+  prUrl: string;
+  body: string;  // General comments collected so far
+  comments: PendingReviewComment[];
+}
+
+export interface SubmitPendingReviewResponse {
+  reviewId: number;
+  prUrl: string;
+  reviewUrl: string;
+  state: string;
+  commentsSubmitted: number;
 }
 
 // MCP Types
@@ -2,16 +2,23 @@ import { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route, useLocation, useNavigate } from 'react-router-dom';
 import { useOpenAI } from './useOpenAI';
 import { WidgetContext, useWidget, type WidgetContextType } from './WidgetContext';
-import { AuthView, PRContextView } from './components';
+import { AuthView, PRContextView, ReviewConfirmationView, ReviewResultView } from './components';
 import { PRsView } from './components/PRsView';
 import { theme } from './theme';
-import type { AuthStatusOutput, PullRequestsOutput, PullRequestContext } from './types';
+import type { AuthStatusOutput, PullRequestsOutput, PullRequestContext, ReviewConfirmationOutput, ReviewSubmissionOutput } from './types';
 import './main.css';
 
+// post_review_comments and submit_pending_review results (including errors)
+function isReviewSubmission(data: unknown): data is ReviewSubmissionOutput {
+  if (!data || typeof data !== 'object') return false;
+  const record = data as Record<string, unknown>;
+  return typeof record.success === 'boolean' && ('reviewUrl' in record || 'prUrl' in record || 'error' in record);
+}
+
 // ============================================
 // Main Widget with Router
 // ============================================
-function WidgetRouter({ initialData }: { initialData: unknown }) {
+function WidgetRouter({ initialData, responseMetadata }: { initialData: unknown; responseMetadata?: Record<string, unknown> | null }) {
   const location = useLocation();
   const navigate = useNavigate();
   const { setAuthData, setPrsData, setPrContextData, prContextData, authData, setPendingParams } = useWidget();
@@ -38,6 +45,22 @@ function WidgetRouter({ initialData }: { initialData: unknown }) {
       return;
     }
 
+    // Check if it's a review waiting on the user's confirmation code
+    if ('confirmationRequired' in data && data.confirmationRequired === true) {
+      console.log('[Widget] Detected review confirmation, navigating to /confirm-review');
+      navigate('/confirm-review', { replace: true });
+      setInitialRouteSet(true);
+      return;
+    }
+
+    // Check if it's the outcome of posting or submitting a review
+    if (isReviewSubmission(data)) {
+      console.log('[Widget] Detected review result, navigating to /review-result');
+      navigate('/review-result', { replace: true });
+      setInitialRouteSet(true);
+      return;
+    }
+
     // Check if it's PRs data (has 'pullRequests' array)
     if ('pullRequests' in data && Array.isArray(data.pullRequests)) {
       console.log('[Widget] Detected PRs data, navigating to /prs');
@@ -116,6 +139,20 @@ function WidgetRouter({ initialData }: { initialData: unknown }) {
       <Route path="/" element={<AuthView initialAuthData={initialAuthData} />} />
       <Route path="/prs" element={<PRsView />} />
       <Route path="/pr-context" element={<PRContextView initialData={prContextData ? { prContext: prContextData } : undefined} />} />
+      {initialData !== null && typeof initialData === 'object' && 'confirmationRequired' in initialData && (
+        <Route
+          path="/confirm-review"
+          element={
+            <ReviewConfirmationView
+              confirmation={initialData as ReviewConfirmationOutput}
+              code={typeof responseMetadata?.reviewConfirmationCode === 'string' ? responseMetadata.reviewConfirmationCode : null}
+            />
+          }
+        />
+      )}
+      {isReviewSubmission(initialData) && (
+        <Route path="/review-result" element={<ReviewResultView result={initialData} />} />
+      )}
     </Routes>
   );
 }
@@ -190,7 +227,7 @@ export default function GitHubWidget() {
   return (
     <WidgetContext.Provider value={contextValue}>
       <BrowserRouter>
-        <WidgetRouter initialData={data} />
+        <WidgetRouter initialData={data} responseMetadata={openai?.toolResponseMetadata} />
       </BrowserRouter>
     </WidgetContext.Provider>
   );
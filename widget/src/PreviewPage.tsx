@@ -33,6 +33,7 @@ const mockPRsData: PullRequestsOutput = {
       created_at: '2024-01-15T10:30:00Z',
       updated_at: '2024-01-16T14:20:00Z',
       draft: false,
+      ci_status: 'success',
       user: {
         login: 'octocat',
         avatar_url: 'https://avatars.githubusercontent.com/u/583231?v=4'
@@ -55,6 +56,7 @@ const mockPRsData: PullRequestsOutput = {
       created_at: '2024-01-14T09:15:00Z',
       updated_at: '2024-01-14T09:15:00Z',
       draft: true,
+      ci_status: 'pending',
       user: {
         login: 'johndoe',
         avatar_url: 'https://avatars.githubusercontent.com/u/1?v=4'
@@ -76,6 +78,7 @@ const mockPRsData: PullRequestsOutput = {
       created_at: '2024-01-13T16:45:00Z',
       updated_at: '2024-01-15T11:30:00Z',
       draft: false,
+      ci_status: 'failure',
       user: {
         login: 'octocat',
         avatar_url: 'https://avatars.githubusercontent.com/u/583231?v=4'
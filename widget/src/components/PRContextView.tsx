@@ -85,6 +85,13 @@ function getPRStateBadge(state: 'open' | 'closed' | 'merged', isDark: boolean):
   }
 }
 
+const PATCH_UNAVAILABLE_LABELS: Record<NonNullable<FileChange['patchUnavailableReason']>, { badge: string; message: string }> = {
+  too_large: { badge: 'Too large', message: 'Diff not shown: this file\'s changes are too large for GitHub to include.' },
+  binary: { badge: 'Binary', message: 'Diff not shown: binary file, or only the file mode changed.' },
+  empty: { badge: 'Empty', message: 'No diff: the file is empty.' },
+  deferred: { badge: 'Not loaded', message: 'Diff not loaded: it is on a later page of this PR\'s context.' },
+};
+
 /**
  * File change item component
  */
@@ -123,6 +130,14 @@ function FileItem({ file, isDark, isExpanded, onToggle }: {
           )}
         </span>
         <span className="flex items-center gap-2 text-xs flex-shrink-0">
+          {file.patchUnavailableReason && (
+            <span
+              className="px-1.5 py-0.5 rounded"
+              style={{ backgroundColor: isDark ? '#334155' : '#e5e7eb', color: isDark ? '#d1d5db' : '#374151' }}
+            >
+              {PATCH_UNAVAILABLE_LABELS[file.patchUnavailableReason].badge}
+            </span>
+          )}
           <span style={{ color: '#22c55e' }}>+{file.additions}</span>
           <span style={{ color: '#ef4444' }}>-{file.deletions}</span>
           <svg
@@ -137,6 +152,15 @@ function FileItem({ file, isDark, isExpanded, onToggle }: {
         </span>
       </button>
 
+      {isExpanded && !file.patch && file.patchUnavailableReason && (
+        <div
+          className={`px-3 py-2 text-xs ${isDark ? 'bg-slate-900' : 'bg-gray-100'}`}
+          style={{ color: isDark ? '#9ca3af' : '#4b5563' }}
+        >
+          {PATCH_UNAVAILABLE_LABELS[file.patchUnavailableReason].message}
+        </div>
+      )}
+
       {isExpanded && file.patch && (
         <div className={`px-3 py-2 overflow-x-auto ${isDark ? 'bg-slate-900' : 'bg-gray-100'}`}>
           <pre className="text-xs font-mono whitespace-pre-wrap">
@@ -158,6 +182,36 @@ function FileItem({ file, isDark, isExpanded, onToggle }: {
           </pre>
         </div>
       )}
+
+      {isExpanded && !file.patch && file.hunks && (
+        <div className={`px-3 py-2 overflow-x-auto ${isDark ? 'bg-slate-900' : 'bg-gray-100'}`}>
+          <pre className="text-xs font-mono whitespace-pre-wrap">
+            {file.hunks.map((hunk, h) => (
+              <div key={h}>
+                <div className={`${isDark ? 'text-blue-400' : 'text-blue-600'} px-1`}>{hunk.header}</div>
+                {hunk.lines.map((line, i) => {
+                  let lineClass = isDark ? 'text-gray-300' : 'text-gray-700';
+                  let marker = ' ';
+                  if (line.type === 'addition') {
+                    lineClass = isDark ? 'text-green-400 bg-green-900/20' : 'text-green-700 bg-green-50';
+                    marker = '+';
+                  } else if (line.type === 'deletion') {
+                    lineClass = isDark ? 'text-red-400 bg-red-900/20' : 'text-red-700 bg-red-50';
+                    marker = '-';
+                  }
+                  return (
+                    <div key={i} className={`${lineClass} px-1 flex`}>
+                      <span className="w-10 flex-shrink-0 text-right pr-1 opacity-60">{line.oldLine ?? ''}</span>
+                      <span className="w-10 flex-shrink-0 text-right pr-2 opacity-60">{line.newLine ?? ''}</span>
+                      <span>{marker}{line.content}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
     </div>
   );
 }
@@ -402,6 +456,37 @@ export default function PRContextView({ initialData, onBack }: PRContextViewProp
           ))}
         </div>
 
+        {prContext.filesTruncated && (
+          <div
+            className="px-4 py-2 text-xs"
+            style={{ color: isDark ? '#fbbf24' : '#b45309' }}
+          >
+            {prContext.since?.fromSha
+              ? 'GitHub lists at most 300 files in a comparison; some changes may be missing.'
+              : `GitHub lists only the first ${files.length + (prContext.pathFilter?.hiddenFiles ?? 0)} of ${changedFiles} changed files.`}
+          </div>
+        )}
+
+        {prContext.since && (
+          <div
+            className="px-4 py-2 text-xs"
+            style={{ color: prContext.since.fromSha ? (isDark ? '#9ca3af' : '#4b5563') : (isDark ? '#fbbf24' : '#b45309') }}
+          >
+            {prContext.since.fromSha
+              ? `Showing changes since ${prContext.since.fromSha.slice(0, 7)} (${prContext.since.totalNewCommits} new commit${prContext.since.totalNewCommits === 1 ? '' : 's'}).`
+              : prContext.since.fallbackReason}
+          </div>
+        )}
+
+        {prContext.pathFilter && prContext.pathFilter.hiddenFiles > 0 && (
+          <div
+            className="px-4 py-2 text-xs"
+            style={{ color: isDark ? '#9ca3af' : '#4b5563' }}
+          >
+            {prContext.pathFilter.hiddenFiles} file{prContext.pathFilter.hiddenFiles === 1 ? '' : 's'} hidden by path filters.
+          </div>
+        )}
+
         {hasMoreFiles && !showAllFiles && (
           <button
             onClick={() => setShowAllFiles(true)}
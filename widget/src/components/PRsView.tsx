@@ -37,6 +37,19 @@ function PRCard({ pr, isDark, index, total, onOpenPR }: PRCardProps) {
     return <Badge className="px-2" size="sm" color="danger">Closed</Badge>;
   };
 
+  const getCIIndicator = () => {
+    switch (pr.ci_status) {
+      case 'success':
+        return <span title="Checks passing" className="text-xs font-medium" style={{ color: isDark ? '#4ade80' : '#15803d' }}>✓ CI</span>;
+      case 'failure':
+        return <span title="Checks failing" className="text-xs font-medium" style={{ color: isDark ? '#f87171' : '#b91c1c' }}>✗ CI</span>;
+      case 'pending':
+        return <span title="Checks running" className="text-xs font-medium" style={{ color: isDark ? '#fbbf24' : '#b45309' }}>● CI</span>;
+      default:
+        return null;
+    }
+  };
+
   return (
     <div className={`rounded-xl border p-4 ${theme.card(isDark)}`}>
       {/* Header: Title and Status Badge */}
@@ -49,7 +62,10 @@ function PRCard({ pr, isDark, index, total, onOpenPR }: PRCardProps) {
             </span>
           </div>
         </div>
-        {getStatusBadge()}
+        <div className="flex items-center gap-2 shrink-0">
+          {getCIIndicator()}
+          {getStatusBadge()}
+        </div>
       </div>
 
       {/* Repository */}
@@ -156,8 +172,9 @@ function getSearchTypeDescription(searchType: PRSearchType): string {
 export function PRsView() {
   const { isDark, prsData, setPrsData, callTool, openExternal, setWidgetState, notifyHeight } = useWidget();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
 
-  useEffect(() => { notifyHeight(); }, [prsData, isRefreshing, notifyHeight]);
+  useEffect(() => { notifyHeight(); }, [prsData, isRefreshing, isLoadingMore, notifyHeight]);
 
   const handleOpenPR = (url: string) => {
     openExternal(url);
@@ -166,7 +183,8 @@ export function PRsView() {
   const handleRefresh = async () => {
     try {
       setIsRefreshing(true);
-      const result = await callTool('list_pull_requests', {}) as { structuredContent?: PullRequestsOutput };
+      // Rerun the same search (state, dates, filters), not the default open-PR list
+      const result = await callTool('list_pull_requests', prsData?.searchArgs || {}) as { structuredContent?: PullRequestsOutput };
       if (result?.structuredContent) {
         setPrsData(result.structuredContent);
         setWidgetState({ view: 'prs', prs: result.structuredContent });
@@ -178,6 +196,26 @@ export function PRsView() {
     }
   };
 
+  const handleLoadMore = async () => {
+    if (!prsData?.nextCursor) return;
+    try {
+      setIsLoadingMore(true);
+      const result = await callTool('list_pull_requests', { cursor: prsData.nextCursor }) as { structuredContent?: PullRequestsOutput };
+      if (result?.structuredContent) {
+        const merged: PullRequestsOutput = {
+          ...result.structuredContent,
+          pullRequests: [...(prsData.pullRequests || []), ...(result.structuredContent.pullRequests || [])],
+        };
+        setPrsData(merged);
+        setWidgetState({ view: 'prs', prs: merged });
+      }
+    } catch (err) {
+      console.error('[Widget] Failed to load more PRs:', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   if (!prsData) {
     return (
       <div className={`p-6 rounded-xl border shadow-sm ${theme.card(isDark)}`}>
@@ -189,6 +227,9 @@ export function PRsView() {
   const pullRequests = prsData.pullRequests || [];
   const searchType = prsData.searchType || 'authored';
   const searchedUser = prsData.searchedUser;
+  const searchState = prsData.state || 'open';
+  const stateWord = searchState === 'all' ? '' : `${searchState} `;
+  const totalCount = Math.max(prsData.totalCount ?? pullRequests.length, pullRequests.length);
 
   return (
     <div className={`rounded-xl border shadow-sm ${theme.card(isDark)}`}>
@@ -209,10 +250,10 @@ export function PRsView() {
             </div>
             <h2 className={`text-xl font-semibold mb-2 ${theme.textPrimary(isDark)}`}>No Pull Requests</h2>
             <p className={`text-sm mb-6 ${theme.textPrimary(isDark)}`}>
-              {searchType === 'authored' && 'You have no open pull requests.'}
-              {searchType === 'reviewing' && 'No PRs waiting for your review.'}
-              {searchType === 'involved' && 'No PRs you\'re involved in.'}
-              {searchType === 'user_authored' && `No open PRs by ${searchedUser}.`}
+              {searchType === 'authored' && `You have no ${stateWord}pull requests.`}
+              {searchType === 'reviewing' && `No ${stateWord}PRs waiting for your review.`}
+              {searchType === 'involved' && `No ${stateWord}PRs you're involved in.`}
+              {searchType === 'user_authored' && `No ${stateWord}PRs by ${searchedUser}.`}
             </p>
             <button
               className={`${theme.textPrimary(isDark)} m-auto flex items-center justify-center p-4 rounded-xl ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`}
@@ -235,7 +276,7 @@ export function PRsView() {
               </div>
               <div>
                 <h1 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>
-                  {pullRequests.length} {getSearchTypeLabel(searchType, searchedUser)}
+                  {prsData.nextCursor ? `${pullRequests.length} of ${totalCount}` : pullRequests.length} {getSearchTypeLabel(searchType, searchedUser)}
                 </h1>
                 <p className={`text-xs ${theme.textPrimary(isDark)} opacity-70`}>
                   {getSearchTypeDescription(searchType)}
@@ -270,10 +311,23 @@ export function PRsView() {
                 pr={pr}
                 isDark={isDark}
                 index={idx + 1}
-                total={pullRequests.length}
+                total={totalCount}
                 onOpenPR={handleOpenPR}
               />
             ))}
+
+            {prsData.nextCursor && (
+              <button
+                className={`rounded-xl py-2 w-full flex items-center justify-center gap-2 ${theme.textPrimary(isDark)} ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`}
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore && (
+                  <div className={`size-4 rounded-full border-2 border-t-blue-500 animate-spin ${theme.spinner(isDark)}`} />
+                )}
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { Badge } from '@openai/apps-sdk-ui/components/Badge';
+import { useWidget } from '../WidgetContext';
+import { theme } from '../theme';
+import type { ReviewConfirmationOutput } from '../types';
+
+interface ReviewConfirmationViewProps {
+  confirmation: ReviewConfirmationOutput;
+  code: string | null;
+}
+
+/**
+ * Shows the review policy's confirmation code to the user only. The
+ * assistant can't see it, so the review goes through only if the user
+ * types it back.
+ */
+export function ReviewConfirmationView({ confirmation, code }: ReviewConfirmationViewProps) {
+  const { isDark, notifyHeight } = useWidget();
+  const action = confirmation.event === 'APPROVE' ? 'Approve' : 'Request changes on';
+
+  useEffect(() => { notifyHeight(); }, [code, notifyHeight]);
+
+  const formatTime = (dateString?: string) => {
+    if (!dateString) return null;
+    try {
+      return new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    } catch {
+      return dateString;
+    }
+  };
+  const expiresAt = formatTime(confirmation.confirmationExpiresAt);
+
+  return (
+    <div className={`rounded-2xl shadow-lg border p-6 ${theme.card(isDark)}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>Confirm review</h2>
+        <Badge className="px-2" size="sm" color={confirmation.event === 'APPROVE' ? 'success' : 'danger'}>
+          {confirmation.event === 'APPROVE' ? 'Approve' : 'Request changes'}
+        </Badge>
+      </div>
+
+      <p className={`text-sm mb-4 ${theme.textSecondary(isDark)}`}>
+        {action} <span className="font-medium">{confirmation.prName}</span> at commit{' '}
+        <code>{confirmation.headSha.slice(0, 7)}</code>?
+      </p>
+
+      {code ? (
+        <>
+          <div className={`p-4 rounded-xl border text-center ${theme.cardInner(isDark)}`}>
+            <p className={`text-xs uppercase tracking-wide font-medium mb-2 ${theme.textSecondary(isDark)}`}>Confirmation code</p>
+            <p className={`text-3xl font-mono tracking-[0.3em] ${theme.textPrimary(isDark)}`}>{code}</p>
+          </div>
+          <p className={`text-xs mt-4 leading-relaxed ${theme.textSecondary(isDark)}`}>
+            To submit this review, type the code in the chat. Only you can see it, so the assistant can't submit
+            the review without you.{expiresAt ? ` It expires at ${expiresAt}.` : ''} If the review changes, a new code is needed.
+          </p>
+        </>
+      ) : (
+        <p className={`text-sm ${theme.textSecondary(isDark)}`}>
+          The confirmation code isn't available. Ask the assistant to submit the review again for a new one.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { Badge } from '@openai/apps-sdk-ui/components/Badge';
+import { useWidget } from '../WidgetContext';
+import { theme } from '../theme';
+import type { ReviewSubmissionOutput } from '../types';
+
+/**
+ * Outcome of posting or submitting a review
+ */
+export function ReviewResultView({ result }: { result: ReviewSubmissionOutput }) {
+  const { isDark, notifyHeight, openExternal } = useWidget();
+  const link = result.reviewUrl || result.prUrl;
+  const comments = result.commentsPosted ?? result.commentsSubmitted;
+
+  useEffect(() => { notifyHeight(); }, [result, notifyHeight]);
+
+  return (
+    <div className={`rounded-2xl shadow-lg border p-6 ${theme.card(isDark)}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>
+          {result.success ? 'Review submitted' : 'Review not submitted'}
+        </h2>
+        {comments !== undefined && result.success && (
+          <Badge className="px-2" size="sm" color="success">{comments} comment(s)</Badge>
+        )}
+      </div>
+
+      <p className={`text-sm ${theme.textSecondary(isDark)}`}>{result.message || result.error}</p>
+
+      {result.violations && result.violations.length > 0 && (
+        <ul className={`mt-3 text-sm list-disc pl-5 ${theme.textSecondary(isDark)}`}>
+          {result.violations.map((violation) => <li key={violation.rule}>{violation.message}</li>)}
+        </ul>
+      )}
+
+      {link && (
+        <button
+          onClick={() => openExternal(link)}
+          className={`mt-4 w-full h-10 rounded-xl text-sm font-medium ${theme.buttonShadow()} ${theme.buttonBorder(isDark)} ${theme.textPrimary(isDark)}`}
+        >
+          {result.reviewUrl ? 'View review on GitHub' : 'View PR on GitHub'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,4 @@
 export { AuthView } from './AuthView';
 export { default as PRContextView } from './PRContextView';
+export { ReviewConfirmationView } from './ReviewConfirmationView';
+export { ReviewResultView } from './ReviewResultView';
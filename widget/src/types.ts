@@ -30,6 +30,57 @@ export interface FileChange {
   changes: number;
   patch?: string;
   previous_filename?: string;
+  truncated?: boolean;
+  patchUnavailableReason?: "too_large" | "binary" | "empty" | "deferred";
+  category?: "source" | "test" | "generated";
+  patchClipped?: boolean;
+  hunks?: DiffHunk[];
+}
+
+export interface DiffLine {
+  type: "context" | "addition" | "deletion";
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+  side: "LEFT" | "RIGHT";
+  commentable: boolean;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string;
+  lines: DiffLine[];
+}
+
+export interface PullRequestContextPage {
+  offset: number;
+  fileCount: number;
+  totalFiles: number;
+  maxChars: number;
+  nextCursor?: string;
+}
+
+export interface PathFilterSummary {
+  include: string[];
+  exclude: string[];
+  hiddenFiles: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface IncrementalDiffSummary {
+  mode: "last_review" | "commit" | "date";
+  requested: string;
+  fromSha: string | null;
+  reviewedAt?: string;
+  newCommits: Array<{ sha: string; message: string; author: string; date: string | null }>;
+  totalNewCommits: number;
+  excludedFiles: number;
+  fallbackReason?: string;
 }
 
 export interface PullRequestContext {
@@ -58,6 +109,10 @@ export interface PullRequestContext {
   additions: number;
   deletions: number;
   changedFiles: number;
+  filesTruncated?: boolean;
+  page?: PullRequestContextPage;
+  pathFilter?: PathFilterSummary;
+  since?: IncrementalDiffSummary;
   mergeable?: boolean;
   mergeableState?: string;
   labels: Array<{ name: string; color: string }>;
@@ -82,6 +137,7 @@ export interface GitHubPullRequest {
   updated_at: string;
   merged_at?: string | null;
   draft: boolean;
+  ci_status?: "success" | "failure" | "pending" | null;
   user: {
     login: string;
     avatar_url: string;
@@ -102,12 +158,40 @@ export type PRSearchType =
   | "involved"
   | "user_authored";
 
+export type PRSearchState = "open" | "closed" | "merged" | "all";
+
 export interface PullRequestsOutput {
   pullRequests?: GitHubPullRequest[];
   searchType?: PRSearchType;
+  state?: PRSearchState;
   searchedUser?: string;
   totalCount?: number;
+  nextCursor?: string;
+  searchArgs?: Record<string, string | number | undefined>;  // Reruns this search from the first page
   authRequired?: boolean;
   authUrl?: string;
   error?: string;
 }
+
+// Review policy refusal waiting on the user's confirmation. The code itself
+// arrives in the tool response's _meta, which only the widget sees.
+export interface ReviewConfirmationOutput {
+  policyRefused: true;
+  confirmationRequired: true;
+  event: "APPROVE" | "REQUEST_CHANGES";
+  prName: string;
+  headSha: string;
+  confirmationExpiresAt?: string;
+}
+
+// Result of post_review_comments or submit_pending_review
+export interface ReviewSubmissionOutput {
+  success: boolean;
+  message?: string;
+  error?: string;
+  prUrl?: string;
+  reviewUrl?: string;
+  commentsPosted?: number;
+  commentsSubmitted?: number;
+  violations?: { rule: string; message: string }[];
+}